@@ -0,0 +1,52 @@
+// 픽스처 갱신: tests/fixtures/fixtures.json의 URL을 다시 받아 저장하고 골든 파일을 새로 씀
+// 사용법: node scripts/refresh-fixtures.mjs [픽스처 이름...]
+// 갱신 후 git diff tests/로 파서 결과가 어떻게 바뀌었는지 검토
+
+import { spawnSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import process from "process";
+
+const FIXTURE_DIR = "tests/fixtures";
+const HEADERS = {
+	"User-Agent": "Mozilla/5.0 (Macintosh; Intel Mac OS X 10_15_7) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/120.0.0.0 Safari/537.36",
+	"Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,image/avif,image/webp,image/apng,*/*;q=0.8",
+	"Accept-Language": "ko-KR,ko;q=0.9,en;q=0.8",
+	"Cache-Control": "no-cache",
+	"Pragma": "no-cache",
+};
+
+const names = process.argv.slice(2);
+/** @type {Array<{ name: string; file: string; url?: string }>} */
+const manifest = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, "fixtures.json"), "utf8"));
+const targets = manifest.filter((entry) => entry.url && (names.length === 0 || names.includes(entry.name)));
+
+if (targets.length === 0) {
+	console.error("갱신할 픽스처가 없습니다 (URL이 있는 항목만 갱신 가능)");
+	process.exit(1);
+}
+
+let failed = 0;
+for (const entry of targets) {
+	try {
+		const response = await fetch(/** @type {string} */ (entry.url), { headers: HEADERS });
+		if (!response.ok) {
+			throw new Error(`HTTP ${response.status}`);
+		}
+		const html = await response.text();
+		fs.writeFileSync(path.join(FIXTURE_DIR, entry.file), html);
+		console.log(`갱신: ${entry.name} (${html.length}자)`);
+	} catch (error) {
+		failed++;
+		console.error(`실패: ${entry.name} - ${error instanceof Error ? error.message : error} (기존 픽스처 유지)`);
+	}
+}
+
+// 새 픽스처 기준으로 골든 파일 다시 쓰기
+spawnSync(process.execPath, ["scripts/run-tests.mjs", "--update"], { stdio: "inherit" });
+
+console.log("\n=== 변경된 픽스처/골든 파일 ===");
+spawnSync("git", ["diff", "--stat", "--", "tests/"], { stdio: "inherit" });
+console.log("\n파서 결과 변화 검토: git diff tests/golden");
+
+process.exit(failed > 0 ? 1 : 0);
@@ -0,0 +1,45 @@
+// 테스트 실행: tests/**/*.test.ts를 esbuild로 묶은 뒤 node:test로 실행
+// 사용법: node scripts/run-tests.mjs [--update]  (--update: 골든 파일 새로 쓰기)
+
+import esbuild from "esbuild";
+import { spawnSync } from "child_process";
+import fs from "fs";
+import path from "path";
+import process from "process";
+
+const outdir = ".test-build";
+const update = process.argv.includes("--update");
+
+/** @param {string} dir @returns {string[]} */
+function findTestFiles(dir) {
+	return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+		const file = path.join(dir, entry.name);
+		if (entry.isDirectory()) return findTestFiles(file);
+		return entry.name.endsWith(".test.ts") ? [file] : [];
+	});
+}
+
+const entryPoints = findTestFiles("tests");
+
+fs.rmSync(outdir, { recursive: true, force: true });
+await esbuild.build({
+	entryPoints,
+	bundle: true,
+	platform: "node",
+	format: "cjs",
+	target: "node18",
+	external: ["linkedom"],
+	outbase: "tests",
+	outdir,
+	sourcemap: "inline",
+	logLevel: "warning",
+});
+
+const files = entryPoints.map((file) =>
+	path.join(outdir, path.relative("tests", file)).replace(/\.ts$/, ".js"));
+const result = spawnSync(process.execPath, ["--enable-source-maps", "--test", ...files], {
+	stdio: "inherit",
+	env: { ...process.env, ...(update ? { UPDATE_GOLDEN: "1" } : {}) },
+});
+
+process.exit(result.status ?? 1);
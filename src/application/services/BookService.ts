@@ -1,21 +1,65 @@
 // 도서 검색 및 정보 조회 서비스
 
-import { Book, CreateBookInput, BookFactory } from '../../domain/models/Book';
-import { NetworkError, SearchError, ParseError } from '../../domain/models/Errors';
+import { Book, CreateBookInput, BookFactory, BookFilter, BookSearchParams } from '../../domain/models/Book';
+import { NetworkError, SearchError, ParseError, CancelledError, OfflineError } from '../../domain/models/Errors';
 import { SearchResultParser } from '../../infrastructure/parsers/SearchResultParser';
 import { BookDetailParser } from '../../infrastructure/parsers/BookDetailParser';
 import { Logger } from '../../shared/utils/Logger';
+import { TextUtils } from '../../shared/utils/TextUtils';
+import { UrlUtils } from '../../shared/utils/UrlUtils';
+import { SingleFlight, SingleFlightStats } from '../../shared/utils/SingleFlight';
 
 /**
  * 검색 옵션 인터페이스
  */
 export interface SearchOptions {
-  maxResults?: number;
+  maxResults?: number;  // 페이지당 결과 수
+  offset?: number;      // 건너뛸 결과 수 (maxResults 단위로 페이지 계산)
   enableDetailFetch?: boolean;
   cacheResults?: boolean;
   timeout?: number;
+  category?: BookSearchParams['category'];   // 검색 URL로 처리
+  sortBy?: BookSearchParams['sortBy'];       // 지원되면 검색 URL, 아니면 클라이언트 정렬
+  sortOrder?: BookSearchParams['sortOrder'];
+  filter?: BookFilter;                       // 클라이언트 측 필터
+  signal?: AbortSignal;                      // 중단되면 남은 요청을 보내지 않고 CancelledError
 }
 
+/**
+ * 기본값을 채운 검색 옵션 (signal은 호출마다 달라 기본값 없음)
+ */
+type ResolvedSearchOptions = Required<Omit<SearchOptions, 'signal'>>;
+
+/**
+ * 상세 조회 옵션 인터페이스
+ */
+export interface DetailOptions {
+  tocApiFirst?: boolean;
+  bypassCache?: boolean; // 캐시를 무시하고 원본 페이지 재조회 (결과는 캐시에 갱신)
+  staleWhileRevalidate?: boolean; // 서비스 정책 대신 이 호출에만 적용할 값
+}
+
+/**
+ * 상세 정보 캐시 정책
+ */
+export interface DetailCachePolicy {
+  staleWhileRevalidate: boolean; // 오래된 캐시를 즉시 반환하고 백그라운드에서 갱신
+  freshForMs: number;            // 이 시간 안의 캐시는 갱신하지 않음
+}
+
+/**
+ * 요청 재시도 대기 정책
+ */
+export interface RetryPolicy {
+  baseDelayMs: number;                   // 첫 재시도 대기 (이후 2배씩)
+  sleep: (ms: number) => Promise<void>;  // 대기 함수 (테스트에서 즉시 반환하도록 교체)
+}
+
+/**
+ * 백그라운드 갱신으로 상세 정보가 바뀌었을 때 호출되는 리스너
+ */
+export type BookUpdateListener = (book: Book, previous: Book) => void;
+
 /**
  * 검색 결과 인터페이스
  */
@@ -24,8 +68,10 @@ export interface SearchResult {
   totalFound: number;
   searchTime: number;
   query: string;
+  offset: number;
   hasMore: boolean;
   parseMetrics: ReturnType<SearchResultParser['getParseMetrics']>;
+  offline?: boolean; // 연결이 없어 캐시에 저장된 도서에서 찾은 결과
 }
 
 /**
@@ -37,6 +83,30 @@ export interface BookDetailResult {
   fetchTime: number;
 }
 
+/**
+ * 직접 입력한 도서 참조 (교보문고 상세 URL 또는 ISBN)
+ */
+export type BookReference =
+  | { type: 'id'; bookId: string }
+  | { type: 'isbn'; isbn: string };
+
+/**
+ * 도서 참조 조회 결과
+ */
+export interface BookReferenceResult {
+  reference: BookReference;
+  detail?: BookDetailResult; // 단일 도서로 확정된 경우
+  candidates: Book[];        // 확정하지 못한 경우의 ISBN 검색 결과
+}
+
+/**
+ * 제목/저자 매칭 결과
+ */
+export interface BookMatchResult {
+  book?: Book;        // 하나로 확정된 도서 (검색 단계 정보)
+  candidates: Book[]; // 점수 순으로 정렬한 후보
+}
+
 /**
  * HTTP 클라이언트 인터페이스 (의존성 주입용)
  */
@@ -44,19 +114,49 @@ export interface HttpClient {
   get(url: string, options?: { timeout?: number }): Promise<string>;
   // optional methods (runtime-checked)
   getDataUrl?(url: string, options?: { timeout?: number }): Promise<string>;
+  getBinary?(url: string, options?: { timeout?: number }): Promise<ImageBinary>;
+}
+
+/**
+ * 연결 상태 인터페이스 (의존성 주입용)
+ */
+export interface ConnectionStatus {
+  isOffline(): boolean;
+  reportFailure(error: unknown): void; // 네트워크 요청이 모두 실패했을 때 알림
+}
+
+/**
+ * 내려받은 이미지 데이터
+ */
+export interface ImageBinary {
+  data: ArrayBuffer;
+  contentType: string; // 소문자, 파라미터 제외 (예: image/jpeg)
 }
 
 /**
- * 캐시 인터페이스 (의존성 주입용)
+ * 캐시 인터페이스 (의존성 주입용, 네임스페이스마다 값 타입이 하나로 정해짐)
  */
-export interface BookCache {
-  get(key: string): Book | undefined;
-  set(key: string, book: Book): void;
+export interface Cache<T> {
+  get(key: string): T | undefined;
+  set(key: string, value: T): void;
   has(key: string): boolean;
+  delete(key: string): boolean;
   clear(): void;
   size(): number;
+  getTimestamp?(key: string): number | undefined; // 저장 시각 (stale-while-revalidate 판단용)
+  values?(): T[]; // 만료되지 않은 값 전체 (오프라인 검색용)
 }
 
+/**
+ * 상세 정보 네임스페이스 (키: detail:<id>)
+ */
+export type BookCache = Cache<Book>;
+
+/**
+ * 검색 결과 페이지 네임스페이스 (키: search:<검색어/옵션/페이지>)
+ */
+export type SearchResultCache = Cache<SearchResult>;
+
 /**
  * 도서 검색 및 정보 조회를 위한 서비스 클래스
  *
@@ -69,23 +169,63 @@ export interface BookCache {
 export class BookService {
   private readonly httpClient: HttpClient;
   private readonly cache?: BookCache;
+  private readonly searchCache?: SearchResultCache;
   private readonly logger: Logger;
-
-  private readonly defaultOptions: Required<SearchOptions> = {
+  private readonly connection?: ConnectionStatus;
+  private detailPolicy: DetailCachePolicy = { staleWhileRevalidate: false, freshForMs: 24 * 60 * 60 * 1000 };
+  private retryPolicy: RetryPolicy = { baseDelayMs: 1000, sleep: ms => new Promise(resolve => setTimeout(resolve, ms)) };
+  private readonly revalidating = new Set<string>();
+  private readonly updateListeners = new Set<BookUpdateListener>();
+  private readonly detailFlights = new SingleFlight<BookDetailResult>();
+
+  private readonly defaultOptions: ResolvedSearchOptions = {
     maxResults: 20,
+    offset: 0,
     enableDetailFetch: false,
     cacheResults: true,
-    timeout: 10000
+    timeout: 10000,
+    category: 'all',
+    sortBy: 'relevance',
+    sortOrder: 'desc',
+    filter: {}
   };
 
   constructor(
     httpClient: HttpClient,
     logger: Logger,
-    cache?: BookCache
+    cache?: BookCache,
+    searchCache?: SearchResultCache,
+    connection?: ConnectionStatus
   ) {
     this.httpClient = httpClient;
     this.logger = logger;
     this.cache = cache;
+    this.searchCache = searchCache;
+    this.connection = connection;
+  }
+
+  /**
+   * 상세 정보 캐시 정책 변경 (설정 변경 시 호출)
+   */
+  setDetailCachePolicy(policy: Partial<DetailCachePolicy>): void {
+    this.detailPolicy = { ...this.detailPolicy, ...policy };
+  }
+
+  /**
+   * 재시도 대기 정책 변경
+   */
+  setRetryPolicy(policy: Partial<RetryPolicy>): void {
+    this.retryPolicy = { ...this.retryPolicy, ...policy };
+  }
+
+  /**
+   * 백그라운드 갱신 결과 구독 (반환된 함수로 구독 해제)
+   */
+  onBookUpdated(listener: BookUpdateListener): () => void {
+    this.updateListeners.add(listener);
+    return () => {
+      this.updateListeners.delete(listener);
+    };
   }
 
   /**
@@ -104,22 +244,36 @@ export class BookService {
       // 입력 유효성 검사
       this.validateSearchQuery(query);
 
-      // 캐시 확인
-      const cacheKey = this.buildSearchCacheKey(query, mergedOptions);
-      if (mergedOptions.cacheResults && this.cache?.has(cacheKey)) {
-        this.logger.debug('BookService', '캐시에서 검색 결과 반환');
-        return this.getCachedSearchResult(cacheKey, query, startTime);
+      // 캐시 확인 (페이지별로 따로 저장)
+      const page = Math.floor(Math.max(0, mergedOptions.offset) / mergedOptions.maxResults) + 1;
+      const offset = (page - 1) * mergedOptions.maxResults;
+      const cacheKey = this.buildSearchCacheKey(query, mergedOptions, page);
+      const cached = mergedOptions.cacheResults ? this.searchCache?.get(cacheKey) : undefined;
+      if (cached) {
+        this.logger.debug('BookService', `캐시에서 검색 결과 반환 (${page}페이지)`);
+        return this.applyClientOptions(this.copySearchResult(cached, Date.now() - startTime), mergedOptions);
+      }
+
+      // 오프라인이면 캐시에 저장된 도서에서 찾기
+      if (this.connection?.isOffline()) {
+        return this.applyClientOptions(this.searchCachedBooks(query, mergedOptions, startTime), mergedOptions);
       }
 
       // 검색 URL 생성
-      const searchUrl = this.buildSearchUrl(query, mergedOptions.maxResults);
+      const searchUrl = this.buildSearchUrl(query, mergedOptions, page);
 
       // HTML 페이지 가져오기
-      const html = await this.fetchWithRetry(searchUrl, mergedOptions.timeout);
+      const html = await this.fetchWithRetry(searchUrl, mergedOptions.timeout, 3, options.signal);
 
-      // 검색 결과 파싱
+      // 검색 결과 파싱 (다음 페이지가 비어 있으면 마지막 페이지로 취급)
       const parser = new SearchResultParser(html);
-      const books = parser.parseBooks(mergedOptions.maxResults);
+      let books: Book[];
+      try {
+        books = parser.parseBooks(mergedOptions.maxResults);
+      } catch (error) {
+        if (page === 1 || !(error instanceof ParseError)) throw error;
+        books = [];
+      }
       const parseMetrics = parser.getParseMetrics();
 
       // 상세 정보 가져오기 (옵션 활성화 시)
@@ -127,27 +281,45 @@ export class BookService {
         ? await this.enrichBooksWithDetails(books, mergedOptions.timeout)
         : books;
 
-      // 검색 결과 구성
+      // 검색 결과 구성 (한 페이지가 가득 차면 다음 페이지가 있다고 판단)
       const result: SearchResult = {
         books: enrichedBooks,
         totalFound: parseMetrics.totalItems,
         searchTime: Date.now() - startTime,
         query,
-        hasMore: enrichedBooks.length < parseMetrics.totalItems,
+        offset,
+        hasMore: parseMetrics.totalItems >= mergedOptions.maxResults,
         parseMetrics
       };
 
-      // 캐시에 저장
-      if (mergedOptions.cacheResults && this.cache) {
-        this.cacheSearchResult(cacheKey, result);
+      // 캐시에 저장 (필터 적용 전 원본 페이지)
+      if (mergedOptions.cacheResults && this.searchCache) {
+        this.searchCache.set(cacheKey, this.copySearchResult(result, result.searchTime));
       }
 
+      // 응답을 기다리는 동안 더 새로운 검색으로 대체되었으면 결과를 돌려주지 않음 (캐시는 유지)
+      this.throwIfCancelled(options.signal, query);
+
       this.logger.info('BookService',
         `검색 완료: ${enrichedBooks.length}권 발견 (${result.searchTime}ms)`);
 
-      return result;
+      return this.applyClientOptions(result, mergedOptions);
 
     } catch (error) {
+      if (error instanceof CancelledError) {
+        this.logger.debug('BookService', `검색 취소: "${query}"`);
+        throw error;
+      }
+
+      // 연결이 끊긴 경우 캐시에 저장된 도서에서 찾은 결과가 있으면 대신 반환
+      if (error instanceof NetworkError && this.connection) {
+        const fallback = this.searchCachedBooks(query, mergedOptions, startTime);
+        if (fallback.books.length > 0) {
+          this.logger.warn('BookService', `검색 실패 - 캐시된 도서 ${fallback.books.length}권으로 대체`, { query });
+          return this.applyClientOptions(fallback, mergedOptions);
+        }
+      }
+
       this.logger.error('BookService', '도서 검색 실패', { query, error });
 
       if (error instanceof NetworkError || error instanceof SearchError) {
@@ -163,10 +335,34 @@ export class BookService {
     }
   }
 
+  /**
+   * 캐시에 있는 검색 결과를 네트워크 요청 없이 즉시 반환 (없으면 undefined)
+   */
+  peekCachedSearch(query: string, options: SearchOptions = {}): SearchResult | undefined {
+    const mergedOptions = { ...this.defaultOptions, ...options };
+    if (!this.searchCache || query.trim().length < 2) return undefined;
+
+    const page = Math.floor(Math.max(0, mergedOptions.offset) / mergedOptions.maxResults) + 1;
+    const cached = this.searchCache.get(this.buildSearchCacheKey(query, mergedOptions, page));
+    return cached ? this.applyClientOptions(this.copySearchResult(cached, 0), mergedOptions) : undefined;
+  }
+
+  /**
+   * 여러 페이지를 이어 붙인 검색 결과를 옵션의 정렬 순서로 다시 정렬
+   *
+   * 클라이언트 정렬은 페이지마다 따로 적용되므로, 더 보기로 페이지를 추가한 목록은
+   * 이 메서드로 전체를 다시 정렬해야 합니다. (서버 정렬이면 그대로 반환)
+   */
+  sortSearchResults(books: Book[], options: Pick<SearchOptions, 'sortBy' | 'sortOrder'> = {}): Book[] {
+    const sortBy = options.sortBy ?? this.defaultOptions.sortBy;
+    const sortOrder = options.sortOrder ?? this.defaultOptions.sortOrder;
+    return this.isClientSorted(sortBy, sortOrder) ? this.sortBooks(books, sortBy, sortOrder) : books;
+  }
+
   /**
    * 도서 상세 정보 조회
    */
-  async getBookDetail(bookId: string, timeout = 10000, options: { tocApiFirst?: boolean } = {}): Promise<BookDetailResult> {
+  async getBookDetail(bookId: string, timeout = 10000, options: DetailOptions = {}): Promise<BookDetailResult> {
     const startTime = Date.now();
 
     this.logger.debug('BookService', `도서 상세 정보 조회: ${bookId}`);
@@ -174,7 +370,7 @@ export class BookService {
     try {
       // 캐시 확인
       const cacheKey = `detail:${bookId}`;
-      if (this.cache?.has(cacheKey)) {
+      if (!options.bypassCache && this.cache?.has(cacheKey)) {
         const cachedBook = this.cache.get(cacheKey)!;
         // 캐시된 객체가 검색 단계의 축약 정보인지 검증(핵심 필드 없으면 무시)
         const hasEnriched = Boolean(
@@ -185,6 +381,9 @@ export class BookService {
         );
         if (hasEnriched) {
           this.logger.debug('BookService', '캐시에서 상세 정보 반환');
+          if (this.isStale(cacheKey, options) && !this.connection?.isOffline()) {
+            this.revalidateDetail(bookId, cachedBook, timeout, options);
+          }
           return {
             book: cachedBook,
             parseResults: {
@@ -207,70 +406,12 @@ export class BookService {
         }
       }
 
-      // 상세 페이지 URL 생성
-      const detailUrl = this.buildDetailUrl(bookId);
-
-      // HTML 페이지 가져오기
-      const html = await this.fetchWithRetry(detailUrl, timeout);
-
-      // 기본 Book 객체 생성 (ID만으로)
-      const baseBook = BookFactory.create({
-        id: bookId,
-        title: '',
-        authors: [],
-        publisher: '',
-        detailPageUrl: detailUrl,
-        language: 'ko'
-      });
-
-      // 상세 정보 파싱 및 병합
-      const parser = new BookDetailParser(html);
-      const enrichedBook = parser.enrichBook(baseBook);
-      const parseResults = parser.getParseResults();
-
-      let finalBook = enrichedBook;
-
-      // 옵션: TOC를 API/발견 경로로 먼저 시도
-      if (options.tocApiFirst) {
-        try {
-          // 1) 인라인 JSON/발견 엔드포인트 우선
-          let toc = await this.fetchTocFromDiscovered(parser, detailUrl, timeout);
-          // 2) 기존 추정 경로 폴백
-          if (!toc) toc = await this.fetchTocFromApi(bookId, timeout);
-          if (toc) {
-            finalBook = BookFactory.update(enrichedBook, { tableOfContents: toc });
-          }
-        } catch (e) {
-          this.logger.warn('BookService', 'TOC API 우선 시도 실패', { bookId, error: e });
-        }
-      }
-
-      // 목차가 비어 있으면 API 폴백 시도
-      if (!finalBook.tableOfContents || finalBook.tableOfContents.trim() === '') {
-        try {
-          let toc = await this.fetchTocFromDiscovered(parser, detailUrl, timeout);
-          if (!toc) toc = await this.fetchTocFromApi(bookId, timeout);
-          if (toc) {
-            finalBook = BookFactory.update(finalBook, { tableOfContents: toc });
-          }
-        } catch (e) {
-          this.logger.warn('BookService', 'TOC API 폴백 실패', { bookId, error: e });
-        }
-      }
-
-      // 캐시에 저장
-      if (this.cache) {
-        this.cache.set(cacheKey, finalBook);
-      }
-
-      const result: BookDetailResult = {
-        book: finalBook,
-        parseResults,
-        fetchTime: Date.now() - startTime
-      };
+      // 같은 도서를 동시에 요청하면 원본 페이지는 한 번만 받아와 결과 공유 (목차 우선 여부에 따라 결과가 다르므로 따로)
+      const flightKey = options.tocApiFirst ? `${bookId}:toc-first` : bookId;
+      const result = await this.detailFlights.run(flightKey, timeout, () => this.fetchBookDetail(bookId, timeout, options));
 
       this.logger.info('BookService',
-        `상세 정보 조회 완료: ${finalBook.title} (${result.fetchTime}ms)`);
+        `상세 정보 조회 완료: ${result.book.title} (${result.fetchTime}ms)`);
 
       return result;
 
@@ -290,6 +431,125 @@ export class BookService {
     }
   }
 
+  /**
+   * 원본 상세 페이지를 받아 파싱하고 캐시에 저장
+   */
+  private async fetchBookDetail(bookId: string, timeout: number, options: DetailOptions): Promise<BookDetailResult> {
+    const startTime = Date.now();
+    const cacheKey = `detail:${bookId}`;
+
+    // 상세 페이지 URL 생성
+    const detailUrl = this.buildDetailUrl(bookId);
+
+    // HTML 페이지 가져오기
+    const html = await this.fetchWithRetry(detailUrl, timeout);
+
+    // 기본 Book 객체 생성 (ID만으로)
+    const baseBook = BookFactory.create({
+      id: bookId,
+      title: '',
+      authors: [],
+      publisher: '',
+      detailPageUrl: detailUrl,
+      language: 'ko'
+    });
+
+    // 상세 정보 파싱 및 병합
+    const parser = new BookDetailParser(html);
+    const enrichedBook = parser.enrichBook(baseBook);
+    const parseResults = parser.getParseResults();
+
+    let finalBook = enrichedBook;
+
+    // 옵션: TOC를 API/발견 경로로 먼저 시도
+    if (options.tocApiFirst) {
+      try {
+        // 1) 인라인 JSON/발견 엔드포인트 우선
+        let toc = await this.fetchTocFromDiscovered(parser, detailUrl, timeout);
+        // 2) 기존 추정 경로 폴백
+        if (!toc) toc = await this.fetchTocFromApi(bookId, timeout);
+        if (toc) {
+          finalBook = BookFactory.update(enrichedBook, { tableOfContents: toc });
+        }
+      } catch (e) {
+        this.logger.warn('BookService', 'TOC API 우선 시도 실패', { bookId, error: e });
+      }
+    }
+
+    // 목차가 비어 있으면 API 폴백 시도
+    if (!finalBook.tableOfContents || finalBook.tableOfContents.trim() === '') {
+      try {
+        let toc = await this.fetchTocFromDiscovered(parser, detailUrl, timeout);
+        if (!toc) toc = await this.fetchTocFromApi(bookId, timeout);
+        if (toc) {
+          finalBook = BookFactory.update(finalBook, { tableOfContents: toc });
+        }
+      } catch (e) {
+        this.logger.warn('BookService', 'TOC API 폴백 실패', { bookId, error: e });
+      }
+    }
+
+    // 캐시에 저장
+    if (this.cache) {
+      this.cache.set(cacheKey, finalBook);
+    }
+
+    return {
+      book: finalBook,
+      parseResults,
+      fetchTime: Date.now() - startTime
+    };
+  }
+
+  /**
+   * 캐시 항목이 신선도 기준을 지났는지 확인
+   */
+  private isStale(cacheKey: string, options: DetailOptions): boolean {
+    const enabled = options.staleWhileRevalidate ?? this.detailPolicy.staleWhileRevalidate;
+    if (!enabled) return false;
+
+    const timestamp = this.cache?.getTimestamp?.(cacheKey);
+    return timestamp !== undefined && Date.now() - timestamp > this.detailPolicy.freshForMs;
+  }
+
+  /**
+   * 원본 페이지를 다시 받아 캐시를 갱신하고, 내용이 바뀌었으면 구독자에게 알림
+   * (같은 도서에 대한 갱신은 한 번에 하나만)
+   */
+  private revalidateDetail(bookId: string, cached: Book, timeout: number, options: DetailOptions): void {
+    if (this.revalidating.has(bookId)) return;
+    this.revalidating.add(bookId);
+    this.logger.debug('BookService', `오래된 상세 정보 백그라운드 갱신: ${bookId}`);
+
+    this.getBookDetail(bookId, timeout, { ...options, bypassCache: true })
+      .then(({ book }) => {
+        if (this.fingerprint(book) === this.fingerprint(cached)) return;
+
+        this.logger.info('BookService', `상세 정보 변경 감지: ${book.title}`);
+        for (const listener of this.updateListeners) {
+          try {
+            listener(book, cached);
+          } catch (error) {
+            this.logger.warn('BookService', '상세 정보 갱신 리스너 오류', { bookId, error });
+          }
+        }
+      })
+      .catch(error => {
+        this.logger.warn('BookService', '백그라운드 갱신 실패 (캐시 유지)', { bookId, error });
+      })
+      .finally(() => {
+        this.revalidating.delete(bookId);
+      });
+  }
+
+  /**
+   * 내용 비교용 직렬화 (생성/수정 시각 제외)
+   */
+  private fingerprint(book: Book): string {
+    const { createdAt: _createdAt, updatedAt: _updatedAt, ...content } = book;
+    return JSON.stringify(content);
+  }
+
   /**
    * 교보 API 폴백으로 목차 요청 시도
    */
@@ -387,32 +647,298 @@ export class BookService {
   /**
    * 도서 상세 정보로 기존 Book 객체 보강
    */
-  async enrichBook(book: Book, timeout = 10000, options: { tocApiFirst?: boolean } = {}): Promise<BookDetailResult> {
+  async enrichBook(book: Book, timeout = 10000, options: DetailOptions = {}): Promise<BookDetailResult> {
     return this.getBookDetail(book.id, timeout, options);
   }
 
+  /**
+   * 입력이 교보문고 상세 URL 또는 ISBN(10/13자리)이면 도서 참조로 해석
+   */
+  parseBookReference(input: string): BookReference | null {
+    const text = input.trim();
+    if (!text) return null;
+
+    if (/^https?:\/\//i.test(text) || /kyobobook\.co\.kr/i.test(text)) {
+      const url = /^https?:\/\//i.test(text) ? text : `https://${text}`;
+      if (!UrlUtils.isKyobobookUrl(url)) return null;
+      try {
+        const bookId = UrlUtils.extractBookId(url);
+        return bookId ? { type: 'id', bookId } : null;
+      } catch {
+        // 잘못된 퍼센트 인코딩 (decodeURIComponent의 URIError)
+        return null;
+      }
+    }
+
+    // 숫자/하이픈/공백/X 외의 문자가 있으면 일반 검색어로 취급
+    if (!/^(?:ISBN[:\s]*)?[\dXx\-\s]+$/i.test(text)) return null;
+
+    const isbn = TextUtils.normalizeISBN(text.replace(/^ISBN[:\s]*/i, ''));
+    return isbn ? { type: 'isbn', isbn } : null;
+  }
+
+  /**
+   * 도서 참조로 상세 정보 조회
+   *
+   * ISBN은 검색 결과가 단일 도서로 좁혀질 때만 상세 정보를 가져오고,
+   * 그렇지 않으면 검색 결과를 후보로 반환합니다.
+   */
+  async lookupBookReference(
+    reference: BookReference,
+    options: SearchOptions & DetailOptions = {}
+  ): Promise<BookReferenceResult> {
+    const timeout = options.timeout ?? this.defaultOptions.timeout;
+    const detailOptions: DetailOptions = { tocApiFirst: options.tocApiFirst, bypassCache: options.bypassCache };
+
+    if (reference.type === 'id') {
+      const detail = await this.getBookDetail(reference.bookId, timeout, detailOptions);
+      return { reference, detail, candidates: [] };
+    }
+
+    const searchResult = await this.searchBooks(reference.isbn, { ...options, offset: 0, timeout });
+    const books = searchResult.books;
+    const matches = books.filter(book => book.isbn && TextUtils.normalizeISBN(book.isbn) === reference.isbn);
+    const single = matches.length === 1 ? matches[0] : (books.length === 1 ? books[0] : undefined);
+
+    // 캐시만 검색한 결과로는 '찾지 못함'을 확정할 수 없음 (호출자가 대기열에 넣도록)
+    if (!single && searchResult.offline) {
+      throw new OfflineError('오프라인 상태라 ISBN으로 도서를 확정할 수 없습니다', undefined, { isbn: reference.isbn });
+    }
+
+    if (!single) {
+      this.logger.info('BookService', `ISBN ${reference.isbn}: 단일 도서로 확정 불가 (${books.length}건)`);
+      return { reference, candidates: books };
+    }
+
+    const detail = await this.getBookDetail(single.id, timeout, detailOptions);
+    return { reference, detail, candidates: books };
+  }
+
+  /**
+   * 제목(과 저자)으로 검색해 가장 일치하는 도서 찾기
+   *
+   * 제목 유사도가 충분히 높고 같은 점수의 다른 후보가 없을 때만 확정합니다.
+   */
+  async matchBookByTitle(
+    title: string,
+    author?: string,
+    options: SearchOptions = {}
+  ): Promise<BookMatchResult> {
+    const query = [title, author].filter(Boolean).join(' ').trim();
+    const searchResult = await this.searchBooks(query, options);
+
+    const scored = searchResult.books
+      .map(book => ({ book, score: this.scoreTitleMatch(book, title, author) }))
+      .sort((a, b) => b.score - a.score);
+    const candidates = scored.map(item => item.book);
+
+    const [best, second] = scored;
+    const isConfident = best && best.score >= 0.85 && (!second || best.score - second.score >= 0.1);
+    if (isConfident || (best && scored.length === 1 && best.score >= 0.5)) {
+      return { book: best.book, candidates };
+    }
+
+    // 캐시만 검색한 결과로는 '찾지 못함'을 확정할 수 없음 (호출자가 대기열에 넣도록)
+    if (searchResult.offline) {
+      throw new OfflineError('오프라인 상태라 제목으로 도서를 확정할 수 없습니다', undefined, { query });
+    }
+
+    this.logger.debug('BookService', `제목 매칭 불확실: "${query}"`, {
+      scores: scored.slice(0, 3).map(item => ({ id: item.book.id, score: item.score }))
+    });
+    return { candidates };
+  }
+
   /**
    * 캐시 상태 조회
    */
-  getCacheStats(): { size: number; enabled: boolean } {
+  getCacheStats(): { size: number; searchPages: number; enabled: boolean } {
     return {
       size: this.cache?.size() || 0,
+      searchPages: this.searchCache?.size() || 0,
       enabled: !!this.cache
     };
   }
 
+  /**
+   * 상세 정보 요청 병합 통계
+   */
+  getRequestStats(): SingleFlightStats {
+    return this.detailFlights.getStats();
+  }
+
   /**
    * 캐시 비우기
    */
   clearCache(): void {
-    if (this.cache) {
-      this.cache.clear();
+    if (this.cache || this.searchCache) {
+      this.cache?.clear();
+      this.searchCache?.clear();
       this.logger.info('BookService', '캐시가 비워졌습니다');
     }
   }
 
   // === Private Methods ===
 
+  /**
+   * 캐시된 검색 결과 복사 (호출 측에서 목록을 바꿔도 캐시 원본의 순서/총계는 그대로 유지)
+   */
+  private copySearchResult(cached: SearchResult, searchTime: number): SearchResult {
+    return {
+      ...cached,
+      books: [...cached.books],
+      parseMetrics: { ...cached.parseMetrics },
+      searchTime
+    };
+  }
+
+  /**
+   * 캐시(검색 결과 페이지 + 상세 정보)에 저장된 도서 중 검색어의 모든 단어가 들어간 도서 찾기
+   */
+  private searchCachedBooks(query: string, options: ResolvedSearchOptions, startTime: number): SearchResult {
+    const terms = query.toLowerCase().split(/\s+/).filter(Boolean);
+    const isbn = TextUtils.normalizeISBN(query.replace(/[^0-9Xx]/g, ''));
+    const byId = new Map<string, Book>();
+
+    for (const page of this.searchCache?.values?.() ?? []) {
+      for (const book of page.books) {
+        if (!byId.has(book.id)) byId.set(book.id, book);
+      }
+    }
+    // 상세 정보가 있으면 검색 단계 정보보다 우선
+    for (const book of this.cache?.values?.() ?? []) {
+      byId.set(book.id, book);
+    }
+
+    const books = Array.from(byId.values()).filter(book => {
+      if (isbn && book.isbn && TextUtils.normalizeISBN(book.isbn) === isbn) return true;
+      const haystack = [book.title, book.subtitle, ...book.authors, book.publisher, book.isbn]
+        .filter(Boolean)
+        .join(' ')
+        .toLowerCase();
+      return terms.every(term => haystack.includes(term));
+    });
+
+    this.logger.info('BookService', `오프라인 검색: 캐시에서 ${books.length}권 발견 "${query}"`);
+
+    const offset = Math.max(0, options.offset);
+    const pageBooks = books.slice(offset, offset + options.maxResults);
+    return {
+      books: pageBooks,
+      totalFound: books.length,
+      searchTime: Date.now() - startTime,
+      query,
+      offset,
+      hasMore: offset + options.maxResults < books.length,
+      parseMetrics: {
+        totalItems: pageBooks.length,
+        successfulItems: pageBooks.length,
+        failedItems: 0,
+        parseTime: 0,
+        errors: [],
+        successRate: 100
+      },
+      offline: true
+    };
+  }
+
+  /**
+   * 검색 URL로 처리하지 못한 옵션(BookFilter, 클라이언트 정렬)을 페이지 결과에 적용
+   */
+  private applyClientOptions(result: SearchResult, options: ResolvedSearchOptions): SearchResult {
+    let books = this.applyBookFilter(result.books, options.filter);
+
+    if (this.isClientSorted(options.sortBy, options.sortOrder)) {
+      books = this.sortBooks(books, options.sortBy, options.sortOrder);
+    }
+
+    return books === result.books ? result : { ...result, books };
+  }
+
+  /**
+   * 검색 URL로 정렬할 수 없어 클라이언트에서 정렬해야 하는지
+   */
+  private isClientSorted(sortBy: NonNullable<SearchOptions['sortBy']>, sortOrder: 'asc' | 'desc'): boolean {
+    const serverSorted = UrlUtils.isServerSortSupported(sortBy) && sortOrder === 'desc';
+    return !serverSorted && sortBy !== 'relevance';
+  }
+
+  /**
+   * BookFilter 조건에 맞는 도서만 남김 (값이 없는 필드는 조건을 만족하지 않음)
+   */
+  private applyBookFilter(books: Book[], filter: BookFilter): Book[] {
+    const includesAny = (values: readonly string[] | undefined, needles: readonly string[]) =>
+      !!values && needles.some(needle =>
+        values.some(value => value.toLowerCase().includes(needle.trim().toLowerCase()))
+      );
+
+    const conditions: Array<(book: Book) => boolean> = [];
+    if (filter.authors?.length) {
+      conditions.push(book => includesAny(book.authors, filter.authors!));
+    }
+    if (filter.publishers?.length) {
+      conditions.push(book => includesAny([book.publisher], filter.publishers!));
+    }
+    if (filter.categories?.length) {
+      conditions.push(book => includesAny(book.categories, filter.categories!));
+    }
+    if (filter.minRating !== undefined) {
+      conditions.push(book => book.rating !== undefined && book.rating >= filter.minRating!);
+    }
+    if (filter.maxRating !== undefined) {
+      conditions.push(book => book.rating !== undefined && book.rating <= filter.maxRating!);
+    }
+    if (filter.publishDateFrom || filter.publishDateTo) {
+      conditions.push(book => {
+        const date = book.publishDate ? TextUtils.normalizeDateString(book.publishDate) : undefined;
+        if (!date) return false;
+        return (!filter.publishDateFrom || date >= filter.publishDateFrom)
+          && (!filter.publishDateTo || date <= filter.publishDateTo);
+      });
+    }
+    if (filter.language) {
+      conditions.push(book => (book.language || 'ko') === filter.language);
+    }
+
+    return conditions.length === 0 ? books : books.filter(book => conditions.every(condition => condition(book)));
+  }
+
+  /**
+   * 클라이언트 측 정렬 (받은 목록 안에서만 적용, 여러 페이지는 sortSearchResults로 다시 정렬)
+   */
+  private sortBooks(books: Book[], sortBy: NonNullable<SearchOptions['sortBy']>, sortOrder: 'asc' | 'desc'): Book[] {
+    const valueOf = (book: Book): string | number => {
+      switch (sortBy) {
+        case 'title': return book.title;
+        case 'author': return book.authors[0] || '';
+        case 'publishDate': return (book.publishDate && TextUtils.normalizeDateString(book.publishDate)) || '';
+        case 'rating': return book.rating ?? -1;
+        default: return 0;
+      }
+    };
+    const direction = sortOrder === 'asc' ? 1 : -1;
+
+    return [...books].sort((a, b) => {
+      const va = valueOf(a);
+      const vb = valueOf(b);
+      if (typeof va === 'number' && typeof vb === 'number') return (va - vb) * direction;
+      return String(va).localeCompare(String(vb), 'ko') * direction;
+    });
+  }
+
+  /**
+   * 제목/저자 유사도 점수 (0~1, 저자가 주어졌는데 맞지 않으면 감점)
+   */
+  private scoreTitleMatch(book: Book, title: string, author?: string): number {
+    const titleScore = TextUtils.similarity(TextUtils.cleanTitle(book.title), TextUtils.cleanTitle(title));
+    if (!author) return titleScore;
+
+    const authorScore = Math.max(0, ...book.authors.map(name =>
+      name.includes(author) || author.includes(name) ? 1 : TextUtils.similarity(name, author)
+    ));
+    return authorScore >= 0.6 ? titleScore : titleScore * 0.5;
+  }
+
   /**
    * 검색 쿼리 유효성 검사
    */
@@ -445,15 +971,11 @@ export class BookService {
   /**
    * 검색 URL 생성
    */
-  private buildSearchUrl(query: string, maxResults: number): string {
-    const params = new URLSearchParams({
-      keyword: query.trim(),
-      target: 'total',
-      gbCode: 'TOT',
-      len: maxResults.toString()
+  private buildSearchUrl(query: string, options: ResolvedSearchOptions, page: number): string {
+    return UrlUtils.buildSearchUrl(query, options.maxResults, page, {
+      category: options.category,
+      sortBy: options.sortBy
     });
-
-    return `https://search.kyobobook.co.kr/search?${params.toString()}`;
   }
 
   /**
@@ -468,11 +990,14 @@ export class BookService {
   /**
    * 캐시 키 생성
    */
-  private buildSearchCacheKey(query: string, options: Required<SearchOptions>): string {
+  private buildSearchCacheKey(query: string, options: ResolvedSearchOptions, page: number): string {
     const key = JSON.stringify({
       query: query.trim().toLowerCase(),
       maxResults: options.maxResults,
-      enableDetailFetch: options.enableDetailFetch
+      enableDetailFetch: options.enableDetailFetch,
+      category: options.category,
+      sortBy: UrlUtils.isServerSortSupported(options.sortBy) ? options.sortBy : 'relevance',
+      page
     });
     return `search:${Buffer.from(key).toString('base64')}`;
   }
@@ -483,11 +1008,19 @@ export class BookService {
   private async fetchWithRetry(
     url: string,
     timeout: number,
-    maxRetries = 3
+    maxRetries = 3,
+    signal?: AbortSignal
   ): Promise<string> {
     let lastError: Error | undefined;
 
+    // 오프라인이면 재시도 대기 없이 바로 실패
+    if (this.connection?.isOffline()) {
+      throw new OfflineError('오프라인 상태라 요청을 보내지 않았습니다', undefined, { url });
+    }
+
     for (let attempt = 1; attempt <= maxRetries; attempt++) {
+      this.throwIfCancelled(signal, url);
+
       try {
         this.logger.debug('BookService', `HTTP 요청 시도 ${attempt}/${maxRetries}: ${url}`);
 
@@ -513,11 +1046,14 @@ export class BookService {
           break;
         }
 
-        // 지수 백오프 (1초, 2초, 4초)
-        await new Promise(resolve => setTimeout(resolve, 1000 * Math.pow(2, attempt - 1)));
+        // 지수 백오프 (기본 1초, 2초, 4초)
+        await this.retryPolicy.sleep(this.retryPolicy.baseDelayMs * Math.pow(2, attempt - 1));
       }
     }
 
+    // 실제로 연결이 끊겼는지는 연결 상태 확인(healthCheck)으로 판단
+    this.connection?.reportFailure(lastError);
+
     throw new NetworkError(
       `네트워크 요청이 ${maxRetries}회 실패했습니다`,
       'BookService',
@@ -526,6 +1062,15 @@ export class BookService {
     );
   }
 
+  /**
+   * 중단된 요청이면 CancelledError
+   */
+  private throwIfCancelled(signal: AbortSignal | undefined, target: string): void {
+    if (signal?.aborted) {
+      throw new CancelledError('요청이 취소되었습니다', { target });
+    }
+  }
+
   /**
    * 도서 목록에 상세 정보 추가
    */
@@ -549,41 +1094,6 @@ export class BookService {
     return enrichedBooks;
   }
 
-  /**
-   * 캐시에서 검색 결과 가져오기
-   */
-  private getCachedSearchResult(
-    cacheKey: string,
-    query: string,
-    startTime: number
-  ): SearchResult {
-    // 실제 구현에서는 검색 결과 전체를 캐시해야 하지만
-    // 현재는 개별 Book 객체만 캐시하므로 기본 구조만 반환
-    return {
-      books: [],
-      totalFound: 0,
-      searchTime: Date.now() - startTime,
-      query,
-      hasMore: false,
-      parseMetrics: {
-        totalItems: 0,
-        successfulItems: 0,
-        failedItems: 0,
-        parseTime: 0,
-        errors: [],
-        successRate: 0
-      }
-    };
-  }
-
-  /**
-   * 검색 결과를 캐시에 저장
-   */
-  private cacheSearchResult(cacheKey: string, result: SearchResult): void {
-    // 검색 결과 단계의 Book은 축약 정보이므로 상세 캐시에 저장하지 않음.
-    // 필요시 별도 프리뷰 캐시를 도입할 수 있음.
-  }
-
   /**
    * 이미지 URL을 data URL로 변환 (가능하면 클라이언트 기능 사용)
    */
@@ -605,6 +1115,30 @@ export class BookService {
     }
   }
 
+  /**
+   * 이미지 원본 바이트 다운로드 (이미지가 아닌 응답이면 null)
+   */
+  async fetchImage(url: string, timeout = 10000): Promise<ImageBinary | null> {
+    try {
+      let image: ImageBinary;
+      if (this.httpClient.getBinary) {
+        image = await this.httpClient.getBinary(url, { timeout });
+      } else {
+        const res = await fetch(url);
+        image = { data: await res.arrayBuffer(), contentType: res.headers.get('content-type')?.split(';')[0].trim().toLowerCase() || this.guessMime(url) };
+      }
+
+      if (!image.contentType.startsWith('image/') || image.data.byteLength === 0) {
+        this.logger.warn('BookService', '이미지가 아닌 응답', { url, contentType: image.contentType });
+        return null;
+      }
+      return image;
+    } catch (e) {
+      this.logger.warn('BookService', '이미지 다운로드 실패', { url, error: e });
+      return null;
+    }
+  }
+
   private arrayBufferToBase64(buffer: ArrayBuffer): string {
     let binary = '';
     const bytes = new Uint8Array(buffer);
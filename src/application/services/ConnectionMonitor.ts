@@ -0,0 +1,135 @@
+// 교보문고 연결 상태 감시
+
+import { ConnectionStatus } from './BookService';
+import { Logger } from '../../shared/utils/Logger';
+
+/**
+ * 연결 상태
+ */
+export type ConnectionState = 'online' | 'offline';
+
+/**
+ * 연결 상태가 바뀌었을 때 호출되는 리스너
+ */
+export type ConnectionListener = (state: ConnectionState) => void;
+
+/**
+ * 교보문고 연결 상태 감시
+ *
+ * - 요청이 네트워크 오류로 실패하면 상태 확인(healthCheck)으로 오프라인 여부를 판단
+ * - 오프라인인 동안에는 일정 간격으로 다시 확인하고, 성공하면 온라인으로 전환
+ */
+export class ConnectionMonitor implements ConnectionStatus {
+  private readonly healthCheck: () => Promise<boolean>;
+  private readonly logger: Logger;
+  private readonly retryInterval: number;
+  private readonly listeners = new Set<ConnectionListener>();
+  private state: ConnectionState = 'online';
+  private checking?: Promise<boolean>;
+  private retryTimer?: ReturnType<typeof setTimeout>;
+  private disposed = false;
+
+  constructor(healthCheck: () => Promise<boolean>, logger: Logger, retryInterval = 60 * 1000) {
+    this.healthCheck = healthCheck;
+    this.logger = logger;
+    this.retryInterval = retryInterval;
+  }
+
+  getState(): ConnectionState {
+    return this.state;
+  }
+
+  isOffline(): boolean {
+    return this.state === 'offline';
+  }
+
+  /**
+   * 상태 변경 구독 (반환된 함수로 구독 해제)
+   */
+  onChange(listener: ConnectionListener): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 연결 확인 (진행 중인 확인이 있으면 그 결과를 공유)
+   */
+  check(): Promise<boolean> {
+    if (!this.checking) {
+      this.checking = this.healthCheck()
+        .catch(() => false)
+        .then(healthy => {
+          this.setState(healthy ? 'online' : 'offline');
+          return healthy;
+        })
+        .finally(() => {
+          this.checking = undefined;
+        });
+    }
+    return this.checking;
+  }
+
+  /**
+   * 요청이 네트워크 오류로 실패했을 때 호출 (온라인 상태였다면 연결을 다시 확인)
+   */
+  reportFailure(error: unknown): void {
+    if (this.state === 'offline' || this.checking) return;
+    this.logger.debug('ConnectionMonitor', '요청 실패로 연결 상태 확인', { error });
+    void this.check();
+  }
+
+  /**
+   * 재확인 타이머 정리 (플러그인 언로드 시)
+   */
+  dispose(): void {
+    this.disposed = true;
+    this.listeners.clear();
+    this.clearRetry();
+  }
+
+  // === Private Methods ===
+
+  private setState(state: ConnectionState): void {
+    if (this.disposed) return;
+
+    if (state === 'offline') {
+      this.scheduleRetry();
+    } else {
+      this.clearRetry();
+    }
+
+    if (state === this.state) return;
+    this.state = state;
+
+    if (state === 'offline') {
+      this.logger.warn('ConnectionMonitor', '교보문고 서버 연결 실패 - 오프라인 모드로 전환');
+    } else {
+      this.logger.info('ConnectionMonitor', '교보문고 서버 연결 복구 - 온라인 모드로 전환');
+    }
+
+    for (const listener of this.listeners) {
+      try {
+        listener(state);
+      } catch (error) {
+        this.logger.warn('ConnectionMonitor', '연결 상태 리스너 오류', { error });
+      }
+    }
+  }
+
+  private scheduleRetry(): void {
+    this.clearRetry();
+    this.retryTimer = setTimeout(() => {
+      this.retryTimer = undefined;
+      void this.check();
+    }, this.retryInterval);
+  }
+
+  private clearRetry(): void {
+    if (this.retryTimer !== undefined) {
+      clearTimeout(this.retryTimer);
+      this.retryTimer = undefined;
+    }
+  }
+}
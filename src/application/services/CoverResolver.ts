@@ -0,0 +1,163 @@
+// 표지 이미지 결정 서비스
+
+import { Book, CoverImageCandidate } from '../../domain/models/Book';
+import { BookService, ImageBinary } from './BookService';
+import { Logger } from '../../shared/utils/Logger';
+import { UrlUtils } from '../../shared/utils/UrlUtils';
+import { readImageSize } from '../../shared/utils/ImageUtils';
+
+/**
+ * 표지를 쓰는 곳 (모달 썸네일은 작게, 미리보기/노트는 크게)
+ */
+export type CoverContext = 'thumbnail' | 'preview' | 'note';
+
+export type CoverSize = 'small' | 'medium' | 'large';
+
+/**
+ * 표지 후보 (우선순위순으로 시도)
+ */
+export interface CoverCandidate {
+  url: string;
+  source: CoverImageCandidate['source'] | 'barcode' | 'product-id';
+  size?: CoverSize; // 교보 정적 URL의 크기
+}
+
+/**
+ * 실제 이미지로 확인된 표지
+ */
+export interface ResolvedCover {
+  url: string;
+  source: CoverCandidate['source'];
+  width: number;
+  height: number;
+  image: ImageBinary; // 다운로드한 원본 (첨부 저장/내장에 재사용)
+}
+
+const CONTEXT_SIZES: Record<CoverContext, CoverSize> = {
+  thumbnail: 'small',
+  preview: 'large',
+  note: 'large'
+};
+
+// UrlUtils.buildCoverImageUrl의 크기별 너비
+const SIZE_WIDTHS: Record<CoverSize, number> = {
+  small: 150,
+  medium: 200,
+  large: 300
+};
+
+// 이보다 좁으면 '이미지 없음' 자리 표시 이미지로 간주
+export const MIN_COVER_WIDTH = 60;
+
+// 한 번 결정할 때 내려받아 확인할 최대 후보 수
+const MAX_VALIDATED_CANDIDATES = 6;
+
+// 결정 결과(이미지 원본 포함)를 기억할 최대 도서 수
+const MAX_RESOLVED_COVERS = 50;
+
+/**
+ * 표지 이미지 결정 서비스
+ *
+ * 후보 순서: og:image → JSON-LD image → 본문 이미지 → 바코드 정적 URL(여러 크기) → 상품 ID 정적 URL
+ * (정적 URL 강제 설정이면 정적 URL을 먼저 시도)
+ *
+ * 후보를 내려받아 Content-Type과 실제 크기를 확인하고, 용도별 목표 너비를
+ * 만족하는 첫 후보를, 없으면 확인된 것 중 가장 큰 후보를 고릅니다.
+ */
+export class CoverResolver {
+  private readonly bookService: BookService;
+  private readonly logger: Logger;
+  private readonly isStaticPreferred: () => boolean;
+  private readonly resolved = new Map<string, ResolvedCover>();
+
+  constructor(bookService: BookService, logger: Logger, isStaticPreferred: () => boolean = () => false) {
+    this.bookService = bookService;
+    this.logger = logger;
+    this.isStaticPreferred = isStaticPreferred;
+  }
+
+  /**
+   * 용도에 맞는 표지 후보 목록 (네트워크 요청 없음, 이미지 요소의 대체 순서로 사용)
+   */
+  getCandidates(book: Book, context: CoverContext): CoverCandidate[] {
+    const size = CONTEXT_SIZES[context];
+    const pageCandidates: CoverCandidate[] = book.coverImageCandidates
+      ? book.coverImageCandidates.map(candidate => ({ ...candidate }))
+      : (book.coverImageUrl ? [{ url: book.coverImageUrl, source: 'page' }] : []);
+
+    const staticCandidates: CoverCandidate[] = [];
+    const barcode = (book.isbn || '').replace(/[^0-9]/g, '');
+    if (/^\d{12,13}$/.test(barcode)) {
+      staticCandidates.push(...this.buildStaticCandidates(barcode, 'barcode', size));
+    }
+    if (/\d{6,}/.test(book.id.replace(/^S/, ''))) {
+      staticCandidates.push(...this.buildStaticCandidates(book.id, 'product-id', size));
+    }
+
+    const ordered = this.isStaticPreferred()
+      ? [...staticCandidates, ...pageCandidates]
+      : [...pageCandidates, ...staticCandidates];
+
+    const seen = new Set<string>();
+    return ordered.filter(candidate => {
+      if (seen.has(candidate.url)) return false;
+      seen.add(candidate.url);
+      return true;
+    });
+  }
+
+  /**
+   * 후보를 내려받아 확인한 표지 (실제 이미지가 없으면 null)
+   */
+  async resolve(book: Book, context: CoverContext): Promise<ResolvedCover | null> {
+    const size = CONTEXT_SIZES[context];
+    const cacheKey = `${book.id}:${size}`;
+    const cached = this.resolved.get(cacheKey);
+    if (cached) return cached;
+
+    const targetWidth = SIZE_WIDTHS[size];
+    let best: ResolvedCover | null = null;
+
+    for (const candidate of this.getCandidates(book, context).slice(0, MAX_VALIDATED_CANDIDATES)) {
+      const image = await this.bookService.fetchImage(candidate.url);
+      if (!image) continue;
+
+      const dimensions = readImageSize(image.data);
+      if (dimensions && dimensions.width < MIN_COVER_WIDTH) {
+        this.logger.debug('CoverResolver', `자리 표시 이미지로 보여 건너뜀: ${candidate.url}`, dimensions);
+        continue;
+      }
+
+      // 크기를 읽지 못한 형식은 다른 후보가 없을 때만 사용
+      const cover: ResolvedCover = { url: candidate.url, source: candidate.source, width: dimensions?.width ?? 0, height: dimensions?.height ?? 0, image };
+      if (cover.width >= targetWidth) {
+        best = cover;
+        break;
+      }
+      if (!best || cover.width > best.width) {
+        best = cover;
+      }
+    }
+
+    if (best) {
+      if (this.resolved.size >= MAX_RESOLVED_COVERS) {
+        this.resolved.delete(this.resolved.keys().next().value);
+      }
+      this.resolved.set(cacheKey, best);
+      this.logger.debug('CoverResolver', `표지 결정: ${book.title}`, { url: best.url, source: best.source, width: best.width });
+    } else {
+      this.logger.warn('CoverResolver', `사용할 수 있는 표지 없음: ${book.title}`, { id: book.id });
+    }
+    return best;
+  }
+
+  /**
+   * 교보 정적 URL (원하는 크기 → 더 큰 크기 → 더 작은 크기)
+   */
+  private buildStaticCandidates(code: string, source: 'barcode' | 'product-id', preferred: CoverSize): CoverCandidate[] {
+    const sizes: CoverSize[] = ['small', 'medium', 'large'];
+    const index = sizes.indexOf(preferred);
+    const order = [...sizes.slice(index), ...sizes.slice(0, index).reverse()];
+    return order.map(size => ({ url: UrlUtils.buildCoverImageUrl(code, size), source, size }));
+  }
+}
@@ -23,6 +23,7 @@ export interface Book {
   // 평가 및 미디어
   readonly rating?: number;            // 평점 (0-10)
   readonly coverImageUrl?: string;     // 표지 이미지 URL
+  readonly coverImageCandidates?: readonly CoverImageCandidate[]; // 상세 페이지에서 찾은 표지 후보 (우선순위순)
   readonly detailPageUrl?: string;     // 상세 페이지 URL
 
   // 메타데이터
@@ -31,6 +32,12 @@ export interface Book {
   readonly updatedAt?: Date;          // 수정일시
 }
 
+// 상세 페이지에서 찾은 표지 이미지 후보
+export interface CoverImageCandidate {
+  readonly url: string;
+  readonly source: 'og:image' | 'json-ld' | 'page'; // page: 본문 이미지 요소
+}
+
 // 도서 생성을 위한 입력 타입 (필수 필드만)
 export interface CreateBookInput {
   id: string;
@@ -47,6 +54,7 @@ export interface CreateBookInput {
   categories?: string[];
   rating?: number;
   coverImageUrl?: string;
+  coverImageCandidates?: CoverImageCandidate[];
   detailPageUrl?: string;
   tags?: string[];
 }
@@ -66,6 +74,7 @@ export interface UpdateBookInput {
   categories?: string[];
   rating?: number;
   coverImageUrl?: string;
+  coverImageCandidates?: CoverImageCandidate[];
   detailPageUrl?: string;
   tags?: string[];
 }
@@ -78,13 +87,19 @@ export interface BookSearchResult {
   readonly nextCursor?: string;
 }
 
+// 검색 카테고리 (전체/국내도서/외국도서/eBook)
+export type BookSearchCategory = 'all' | 'domestic' | 'foreign' | 'ebook';
+
+// 검색 정렬 기준
+export type BookSortBy = 'relevance' | 'title' | 'author' | 'publishDate' | 'rating' | 'sales';
+
 // 도서 검색 파라미터
 export interface BookSearchParams {
   readonly query: string;
   readonly maxResults?: number;
   readonly offset?: number;
-  readonly category?: string;
-  readonly sortBy?: 'relevance' | 'title' | 'author' | 'publishDate' | 'rating';
+  readonly category?: BookSearchCategory;
+  readonly sortBy?: BookSortBy;
   readonly sortOrder?: 'asc' | 'desc';
 }
 
@@ -123,6 +138,7 @@ export class BookFactory {
       categories: input.categories?.map(cat => cat.trim()).filter(Boolean),
       rating: input.rating && input.rating >= 0 && input.rating <= 10 ? input.rating : undefined,
       coverImageUrl: input.coverImageUrl?.trim(),
+      coverImageCandidates: input.coverImageCandidates,
       detailPageUrl: input.detailPageUrl?.trim(),
       tags: input.tags?.map(tag => tag.trim()).filter(Boolean),
       createdAt: now,
@@ -157,6 +173,7 @@ export class BookFactory {
         rating: updates.rating && updates.rating >= 0 && updates.rating <= 10 ? updates.rating : undefined
       }),
       ...(updates.coverImageUrl !== undefined && { coverImageUrl: updates.coverImageUrl?.trim() }),
+      ...(updates.coverImageCandidates !== undefined && { coverImageCandidates: updates.coverImageCandidates }),
       ...(updates.detailPageUrl !== undefined && { detailPageUrl: updates.detailPageUrl?.trim() }),
       ...(updates.tags !== undefined && {
         tags: updates.tags?.map(tag => tag.trim()).filter(Boolean)
@@ -165,6 +182,17 @@ export class BookFactory {
     };
   }
 
+  /**
+   * JSON으로 저장했던 Book 복원 (문자열이 된 날짜 필드를 Date로)
+   */
+  static revive(raw: Book): Book {
+    return {
+      ...raw,
+      createdAt: raw.createdAt ? new Date(raw.createdAt) : undefined,
+      updatedAt: raw.updatedAt ? new Date(raw.updatedAt) : undefined
+    };
+  }
+
   /**
    * Book 유효성 검증
    */
@@ -95,6 +95,19 @@ export class NetworkError extends PluginError {
   }
 }
 
+/**
+ * 오프라인 상태라 요청을 보내지 않은 경우
+ */
+export class OfflineError extends NetworkError {
+  getUserMessage(): string {
+    return '교보문고에 연결할 수 없어 오프라인 모드로 동작 중입니다.';
+  }
+
+  getSeverity(): ErrorSeverity {
+    return ErrorSeverity.LOW;
+  }
+}
+
 /**
  * 파싱 관련 에러
  */
@@ -262,6 +275,57 @@ export class ConfigurationError extends PluginError {
   }
 }
 
+/**
+ * 템플릿 문법 관련 에러
+ */
+export class TemplateError extends PluginError {
+  readonly code = 'TEMPLATE_ERROR';
+  readonly category = 'TEMPLATE';
+
+  constructor(
+    message: string,
+    public readonly line?: number,
+    public readonly column?: number,
+    context?: Record<string, unknown>
+  ) {
+    super(message, { ...context, line, column });
+  }
+
+  getUserMessage(): string {
+    if (this.line) {
+      return `템플릿 ${this.line}번째 줄: ${this.message}`;
+    }
+    return `템플릿 오류: ${this.message}`;
+  }
+
+  getSeverity(): ErrorSeverity {
+    return ErrorSeverity.MEDIUM;
+  }
+}
+
+/**
+ * 요청 취소 (더 새로운 요청으로 대체됨) - 사용자에게 알리지 않음
+ */
+export class CancelledError extends PluginError {
+  readonly code = 'CANCELLED';
+  readonly category = 'REQUEST';
+
+  constructor(
+    message: string,
+    context?: Record<string, unknown>
+  ) {
+    super(message, context);
+  }
+
+  getUserMessage(): string {
+    return '요청이 취소되었습니다.';
+  }
+
+  getSeverity(): ErrorSeverity {
+    return ErrorSeverity.LOW;
+  }
+}
+
 /**
  * 에러 심각도 수준
  */
@@ -0,0 +1,89 @@
+// 캐시 네임스페이스 관리
+
+import { CacheStats, MemoryCache } from './MemoryCache';
+
+/**
+ * 네임스페이스별 크기/유지 시간 예산
+ */
+export interface CacheNamespaceBudget {
+  maxSize: number;    // 항목 수
+  ttlMinutes: number;
+}
+
+/**
+ * 관리 화면에 표시할 캐시 항목
+ */
+export interface CacheEntryInfo {
+  key: string;
+  value: unknown;
+  timestamp: number; // 저장 시각
+}
+
+/**
+ * 값 타입이 다른 캐시들을 이름(네임스페이스)으로 묶어 관리
+ *
+ * 각 네임스페이스는 자신의 크기/TTL 예산을 가진 MemoryCache이며,
+ * 통계 조회와 비우기를 한곳에서 처리합니다.
+ */
+export class CacheManager {
+  private readonly namespaces = new Map<string, MemoryCache<unknown>>();
+
+  /**
+   * 네임스페이스 등록 (등록한 캐시를 그대로 반환해 타입 유지)
+   */
+  register<C extends MemoryCache<unknown>>(name: string, cache: C): C {
+    this.namespaces.set(name, cache);
+    return cache;
+  }
+
+  get(name: string): MemoryCache<unknown> | undefined {
+    return this.namespaces.get(name);
+  }
+
+  getNames(): string[] {
+    return Array.from(this.namespaces.keys());
+  }
+
+  /**
+   * 네임스페이스별 통계
+   */
+  getStats(): Record<string, CacheStats> {
+    const stats: Record<string, CacheStats> = {};
+    for (const [name, cache] of this.namespaces) {
+      stats[name] = cache.getStats();
+    }
+    return stats;
+  }
+
+  /**
+   * 네임스페이스의 만료되지 않은 항목 (최신순)
+   */
+  getEntries(name: string): CacheEntryInfo[] {
+    return this.namespaces.get(name)?.snapshot() ?? [];
+  }
+
+  /**
+   * 항목 하나 삭제
+   */
+  invalidate(name: string, key: string): boolean {
+    return this.namespaces.get(name)?.delete(key) ?? false;
+  }
+
+  /**
+   * 한 네임스페이스 또는 전체 비우기
+   */
+  clear(name?: string): void {
+    if (name) {
+      this.namespaces.get(name)?.clear();
+      return;
+    }
+    this.namespaces.forEach(cache => cache.clear());
+  }
+}
+
+/**
+ * 예산(분 단위 TTL)으로 네임스페이스 캐시 생성 인자 계산
+ */
+export function toCacheArgs(budget: CacheNamespaceBudget): [maxSize: number, ttl: number] {
+  return [budget.maxSize, budget.ttlMinutes * 60 * 1000];
+}
@@ -0,0 +1,189 @@
+// 메모리 캐시의 디스크 영구 저장 (플러그인 폴더)
+
+import type { DataAdapter } from 'obsidian';
+import { CacheSnapshotEntry, MemoryCache } from './MemoryCache';
+import { JsonFileStore } from '../storage/JsonFileStore';
+import { Logger } from '../../shared/utils/Logger';
+
+/**
+ * 네임스페이스 하나의 캐시 파일 형식
+ */
+interface PersistedCacheFile<T> {
+  version: 1;
+  savedAt: number;
+  entries: CacheSnapshotEntry<T>[];
+}
+
+/**
+ * 네임스페이스별 디스크 사용량
+ */
+export interface CacheDiskUsage {
+  namespaces: Array<{ name: string; entries: number; bytes: number; maxBytes: number }>;
+  totalBytes: number;
+  maxBytes: number;
+}
+
+interface PersistedNamespace<T = unknown> {
+  cache: MemoryCache<T>;
+  store: JsonFileStore<PersistedCacheFile<T>>;
+  maxBytes: number;
+  dirty: boolean;
+  entries: number; // 마지막으로 파일에 저장한 항목 수
+}
+
+/**
+ * 메모리 캐시를 네임스페이스별 JSON 파일로 저장해 재시작 후에도 유지
+ *
+ * - 연결할 때 파일을 읽어 만료되지 않은 항목만 복원
+ * - 캐시가 바뀌면 잠시 모았다가 한 번에 저장
+ * - 파일 크기가 네임스페이스 한도를 넘으면 오래된 항목부터 제외
+ */
+export class CachePersistence {
+  private readonly adapter: DataAdapter;
+  private readonly dir: string; // vault 상대 경로
+  private readonly logger: Logger;
+  private readonly flushDelay: number;
+  private readonly namespaces = new Map<string, PersistedNamespace>();
+  private flushTimer?: number;
+  private closed = false;
+
+  constructor(adapter: DataAdapter, dir: string, logger: Logger, flushDelay = 2000) {
+    this.adapter = adapter;
+    this.dir = dir;
+    this.logger = logger;
+    this.flushDelay = flushDelay;
+  }
+
+  /**
+   * 캐시를 네임스페이스 파일과 연결하고 저장된 항목 복원
+   */
+  async attach<T>(
+    name: string,
+    cache: MemoryCache<T>,
+    maxBytes: number,
+    revive: (value: T) => T = value => value
+  ): Promise<void> {
+    const store = new JsonFileStore<PersistedCacheFile<T>>(this.adapter, `${this.dir}/${name}.json`, this.logger);
+    const namespace: PersistedNamespace<T> = { cache, store, maxBytes, dirty: false, entries: 0 };
+    this.namespaces.set(name, namespace);
+
+    const saved = await store.load();
+    if (saved?.version === 1 && Array.isArray(saved.entries)) {
+      const restored = cache.restore(saved.entries.map(entry => ({ ...entry, value: revive(entry.value) })));
+      namespace.entries = saved.entries.length;
+      this.logger.info('CachePersistence', `캐시 복원: ${name} ${restored}개 항목`);
+    }
+
+    cache.onChange(() => this.markDirty(namespace));
+  }
+
+  /**
+   * 변경된 네임스페이스를 바로 저장
+   * (직렬화는 동기로 먼저 끝내므로 호출 직후 메모리 캐시를 비워도 안전)
+   */
+  async flush(): Promise<void> {
+    if (this.flushTimer !== undefined) {
+      window.clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+
+    const pending = Array.from(this.namespaces.entries())
+      .filter(([, namespace]) => namespace.dirty)
+      .map(([name, namespace]) => {
+        namespace.dirty = false;
+        return { name, namespace, file: this.serialize(namespace) };
+      });
+
+    for (const { name, namespace, file } of pending) {
+      try {
+        await namespace.store.save(file);
+      } catch (error) {
+        namespace.dirty = true;
+        this.logger.warn('CachePersistence', `캐시 파일 저장 실패: ${name}`, { error });
+      }
+    }
+  }
+
+  /**
+   * 남은 변경을 저장하고 이후 변경은 무시 (플러그인 언로드 시)
+   */
+  async close(): Promise<void> {
+    const flushing = this.flush();
+    this.closed = true;
+    await flushing;
+  }
+
+  /**
+   * 디스크 사용량 (파일이 없으면 0)
+   */
+  async getUsage(): Promise<CacheDiskUsage> {
+    const namespaces: CacheDiskUsage['namespaces'] = [];
+
+    for (const [name, namespace] of this.namespaces) {
+      const stat = await this.adapter.stat(`${this.dir}/${name}.json`).catch(() => null);
+      namespaces.push({
+        name,
+        entries: namespace.dirty ? namespace.cache.size() : namespace.entries,
+        bytes: stat?.size ?? 0,
+        maxBytes: namespace.maxBytes
+      });
+    }
+
+    return {
+      namespaces,
+      totalBytes: namespaces.reduce((sum, item) => sum + item.bytes, 0),
+      maxBytes: namespaces.reduce((sum, item) => sum + item.maxBytes, 0)
+    };
+  }
+
+  /**
+   * 메모리 캐시와 디스크 파일 모두 비우기
+   */
+  async clear(): Promise<void> {
+    for (const namespace of this.namespaces.values()) {
+      namespace.cache.clear();
+      namespace.dirty = false;
+      namespace.entries = 0;
+      await namespace.store.clear();
+    }
+
+    if (this.flushTimer !== undefined) {
+      window.clearTimeout(this.flushTimer);
+      this.flushTimer = undefined;
+    }
+    this.logger.info('CachePersistence', '영구 캐시를 비웠습니다');
+  }
+
+  // === Private Methods ===
+
+  private markDirty(namespace: PersistedNamespace): void {
+    if (this.closed) return;
+
+    namespace.dirty = true;
+    if (this.flushTimer === undefined) {
+      this.flushTimer = window.setTimeout(() => {
+        this.flushTimer = undefined;
+        void this.flush();
+      }, this.flushDelay);
+    }
+  }
+
+  /**
+   * 최신 항목부터 크기 한도 안에서 파일 내용 구성
+   */
+  private serialize(namespace: PersistedNamespace): PersistedCacheFile<unknown> {
+    const encoder = new TextEncoder();
+    const entries: CacheSnapshotEntry<unknown>[] = [];
+    let bytes = 64; // version/savedAt 등 파일 머리 부분
+
+    for (const entry of namespace.cache.snapshot()) {
+      const size = encoder.encode(JSON.stringify(entry)).length + 1;
+      if (bytes + size > namespace.maxBytes) break;
+      entries.push(entry);
+      bytes += size;
+    }
+
+    namespace.entries = entries.length;
+    return { version: 1, savedAt: Date.now(), entries };
+  }
+}
@@ -14,6 +14,15 @@ interface CacheEntry<T> {
   accessCount: number;
 }
 
+/**
+ * 저장/복원용 엔트리 (영구 캐시)
+ */
+export interface CacheSnapshotEntry<T> {
+  key: string;
+  value: T;
+  timestamp: number; // 저장 시각 (TTL 기준)
+}
+
 /**
  * 캐시 통계 정보
  */
@@ -49,6 +58,9 @@ export class MemoryCache<T = any> {
   private missCount = 0;
   private evictionCount = 0;
 
+  // 변경 알림 (영구 캐시 동기화용)
+  private changeListener?: () => void;
+
   constructor(
     maxSize = 100,
     ttl = 30 * 60 * 1000, // 30분
@@ -104,6 +116,7 @@ export class MemoryCache<T = any> {
       entry.timestamp = now;
       entry.lastAccess = now;
       this.logger?.debug('MemoryCache', `캐시 업데이트: ${key}`);
+      this.changeListener?.();
       return;
     }
 
@@ -122,6 +135,7 @@ export class MemoryCache<T = any> {
 
     this.cache.set(key, entry);
     this.logger?.debug('MemoryCache', `캐시 저장: ${key}`);
+    this.changeListener?.();
   }
 
   /**
@@ -142,6 +156,17 @@ export class MemoryCache<T = any> {
     return true;
   }
 
+  /**
+   * 항목 저장 시각 (없거나 만료되었으면 undefined, 통계에 반영하지 않음)
+   */
+  getTimestamp(key: string): number | undefined {
+    const entry = this.cache.get(key);
+    if (!entry || this.isExpired(entry)) {
+      return undefined;
+    }
+    return entry.timestamp;
+  }
+
   /**
    * 값 삭제
    */
@@ -149,6 +174,7 @@ export class MemoryCache<T = any> {
     const deleted = this.cache.delete(key);
     if (deleted) {
       this.logger?.debug('MemoryCache', `캐시 삭제: ${key}`);
+      this.changeListener?.();
     }
     return deleted;
   }
@@ -161,6 +187,7 @@ export class MemoryCache<T = any> {
     this.cache.clear();
     this.resetStats();
     this.logger?.info('MemoryCache', `캐시 전체 삭제 (${size}개 항목)`);
+    this.changeListener?.();
   }
 
   /**
@@ -178,10 +205,12 @@ export class MemoryCache<T = any> {
   }
 
   /**
-   * 모든 값 반환
+   * 만료되지 않은 값 모두 반환 (통계에 반영하지 않음)
    */
   values(): T[] {
-    return Array.from(this.cache.values()).map(entry => entry.value);
+    return Array.from(this.cache.values())
+      .filter(entry => !this.isExpired(entry))
+      .map(entry => entry.value);
   }
 
   /**
@@ -205,6 +234,42 @@ export class MemoryCache<T = any> {
     };
   }
 
+  /**
+   * 변경(저장/삭제/비우기) 알림 등록
+   */
+  onChange(listener: () => void): void {
+    this.changeListener = listener;
+  }
+
+  /**
+   * 만료되지 않은 엔트리를 최신순으로 반환
+   */
+  snapshot(): CacheSnapshotEntry<T>[] {
+    return Array.from(this.cache.entries())
+      .filter(([, entry]) => !this.isExpired(entry))
+      .map(([key, entry]) => ({ key, value: entry.value, timestamp: entry.timestamp }))
+      .sort((a, b) => b.timestamp - a.timestamp);
+  }
+
+  /**
+   * 저장해 둔 엔트리 복원 (원래 저장 시각 유지, 만료되었거나 이미 있는 키는 건너뜀)
+   * @returns 복원한 항목 수
+   */
+  restore(entries: CacheSnapshotEntry<T>[]): number {
+    let restored = 0;
+    const newestFirst = [...entries].sort((a, b) => b.timestamp - a.timestamp);
+
+    for (const { key, value, timestamp } of newestFirst) {
+      if (this.cache.size >= this.maxSize) break;
+      if (this.cache.has(key) || Date.now() - timestamp > this.ttl) continue;
+
+      this.cache.set(key, { value, timestamp, lastAccess: timestamp, accessCount: 1 });
+      restored++;
+    }
+
+    return restored;
+  }
+
   /**
    * 만료된 엔트리 정리
    */
@@ -280,7 +345,8 @@ export class MemoryCache<T = any> {
 }
 
 /**
- * Book 전용 캐시 (BookCache 인터페이스 구현)
+ * 도서 상세 정보 네임스페이스 캐시 (BookCache 인터페이스 구현)
+ * 검색 결과 페이지는 별도 네임스페이스(MemoryCache<SearchResult>)에 저장
  */
 export class BookMemoryCache extends MemoryCache<Book> implements BookCache {
   constructor(
@@ -291,22 +357,6 @@ export class BookMemoryCache extends MemoryCache<Book> implements BookCache {
     super(maxSize, ttl, logger);
   }
 
-  /**
-   * Book ID로 검색 결과 캐시 키 생성
-   */
-  static buildSearchCacheKey(
-    query: string,
-    maxResults: number,
-    enableDetailFetch: boolean
-  ): string {
-    const key = {
-      query: query.trim().toLowerCase(),
-      maxResults,
-      enableDetailFetch
-    };
-    return `search:${Buffer.from(JSON.stringify(key)).toString('base64')}`;
-  }
-
   /**
    * Book ID로 상세 정보 캐시 키 생성
    */
@@ -314,25 +364,6 @@ export class BookMemoryCache extends MemoryCache<Book> implements BookCache {
     return `detail:${bookId}`;
   }
 
-  /**
-   * 검색 결과 캐시
-   */
-  cacheSearchResult(
-    query: string,
-    maxResults: number,
-    enableDetailFetch: boolean,
-    books: Book[]
-  ): void {
-    const cacheKey = BookMemoryCache.buildSearchCacheKey(query, maxResults, enableDetailFetch);
-
-    // 검색 결과 자체는 별도로 저장하지 않고, 개별 Book 들만 저장
-    // (BookService에서 검색 결과 전체 캐싱은 복잡하므로 단순화)
-    books.forEach(book => {
-      const detailKey = BookMemoryCache.buildDetailCacheKey(book.id);
-      this.set(detailKey, book);
-    });
-  }
-
   /**
    * 상세 정보 캐시
    */
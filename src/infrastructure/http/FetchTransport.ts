@@ -0,0 +1,51 @@
+// fetch 전송 (Node 18+/브라우저)
+
+import { HttpTransport, TransportRequest, TransportResponse } from './HttpTransport';
+
+/**
+ * 표준 fetch 전송 (Obsidian 밖에서 스크립트/테스트로 실제 요청을 보낼 때 사용)
+ *
+ * 브라우저에서는 CORS 제한을 받으므로 플러그인에서는 ObsidianTransport를 사용합니다.
+ */
+export class FetchTransport implements HttpTransport {
+  private readonly fetchImpl: typeof fetch;
+
+  constructor(fetchImpl: typeof fetch = (input, init) => fetch(input, init)) {
+    this.fetchImpl = fetchImpl;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const controller = new AbortController();
+    const timer = request.timeout ? setTimeout(() => controller.abort(), request.timeout) : undefined;
+
+    try {
+      const response = await this.fetchImpl(request.url, {
+        method: request.method,
+        headers: request.headers,
+        body: request.body,
+        redirect: 'follow',
+        signal: controller.signal
+      });
+      const arrayBuffer = await response.arrayBuffer();
+      const headers: Record<string, string> = {};
+      response.headers.forEach((value, key) => {
+        headers[key] = value;
+      });
+
+      return {
+        status: response.status,
+        headers,
+        text: new TextDecoder().decode(arrayBuffer),
+        arrayBuffer,
+        url: response.url || request.url
+      };
+    } catch (error) {
+      if (controller.signal.aborted) {
+        throw new Error(`요청 시간 초과 (${request.timeout}ms)`);
+      }
+      throw error;
+    } finally {
+      if (timer !== undefined) clearTimeout(timer);
+    }
+  }
+}
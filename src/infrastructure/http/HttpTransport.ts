@@ -0,0 +1,46 @@
+// HTTP 전송 계층 (요청을 실제로 보내는 부분만 분리)
+
+export type HttpMethod = 'GET' | 'POST';
+
+/**
+ * 전송할 요청
+ */
+export interface TransportRequest {
+  url: string;
+  method: HttpMethod;
+  headers: Record<string, string>;
+  timeout?: number;
+  body?: string;
+}
+
+/**
+ * 받은 응답 (상태 코드와 관계없이 반환)
+ */
+export interface TransportResponse {
+  status: number;
+  headers: Record<string, string>;
+  text: string;
+  arrayBuffer: ArrayBuffer;
+  url?: string; // 리다이렉트 후 최종 URL
+}
+
+/**
+ * HTTP 전송 인터페이스
+ *
+ * 구현: ObsidianTransport(requestUrl), FetchTransport(Node/브라우저 fetch),
+ * MemoryTransport(테스트용 가짜 응답/녹화 재생)
+ *
+ * 연결 자체가 실패했을 때만 예외를 던지고, 4xx/5xx는 응답으로 돌려줍니다.
+ * 재시도/요청 제한/오류 변환은 KyobobookClient가 담당합니다.
+ */
+export interface HttpTransport {
+  send(request: TransportRequest): Promise<TransportResponse>;
+}
+
+/**
+ * 대소문자 구분 없이 헤더 값 찾기
+ */
+export function getHeader(headers: Record<string, string> | undefined, name: string): string | undefined {
+  const lower = name.toLowerCase();
+  return Object.entries(headers || {}).find(([key]) => key.toLowerCase() === lower)?.[1];
+}
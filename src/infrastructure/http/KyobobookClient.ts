@@ -1,8 +1,10 @@
 // 교보문고 HTTP 클라이언트
 
 import { NetworkError } from '../../domain/models/Errors';
-import { HttpClient } from '../../application/services/BookService';
+import { HttpClient, ImageBinary } from '../../application/services/BookService';
 import { Logger } from '../../shared/utils/Logger';
+import { SingleFlight, SingleFlightStats } from '../../shared/utils/SingleFlight';
+import { HttpTransport, getHeader } from './HttpTransport';
 
 /**
  * HTTP 요청 옵션
@@ -14,6 +16,15 @@ export interface RequestOptions {
   userAgent?: string;
 }
 
+/**
+ * 클라이언트 생성 옵션 (요청 기본값 + 요청 간격/재시도 대기)
+ */
+export interface KyobobookClientOptions extends RequestOptions {
+  minRequestInterval?: number; // 요청 간 최소 간격 (ms, 기본 1초)
+  retryDelay?: number; // 첫 재시도 대기 (ms, 이후 2배씩, 기본 1초)
+  sleep?: (ms: number) => Promise<void>; // 대기 함수 (테스트에서 즉시 반환하도록 교체)
+}
+
 /**
  * HTTP 응답 인터페이스
  */
@@ -29,19 +40,23 @@ export interface HttpResponse {
  * 교보문고 전용 HTTP 클라이언트
  *
  * 특징:
- * - Obsidian requestUrl API 래핑
+ * - 전송 계층(HttpTransport) 주입: Obsidian requestUrl / fetch / 테스트용 메모리 전송
  * - 자동 재시도 및 백오프
  * - 요청 제한 및 쿨다운
  * - User-Agent 로테이션
  * - 응답 캐싱
+ * - 같은 URL에 대한 동시 GET 요청 병합
  */
 export class KyobobookClient implements HttpClient {
   private readonly logger: Logger;
+  private readonly transport: HttpTransport;
   private readonly baseOptions: Required<RequestOptions>;
+  private readonly retryDelay: number;
+  private readonly sleep: (ms: number) => Promise<void>;
 
   // 요청 제한 (Rate Limiting)
   private lastRequestTime = 0;
-  private readonly minRequestInterval = 1000; // 1초 간격
+  private readonly minRequestInterval: number;
 
   // User-Agent 로테이션
   private readonly userAgents = [
@@ -51,8 +66,15 @@ export class KyobobookClient implements HttpClient {
   ];
   private userAgentIndex = 0;
 
-  constructor(logger: Logger, options: RequestOptions = {}) {
+  // 동시에 들어온 같은 URL의 GET 요청 병합
+  private readonly getFlights = new SingleFlight<HttpResponse>();
+
+  constructor(logger: Logger, transport: HttpTransport, options: KyobobookClientOptions = {}) {
     this.logger = logger;
+    this.transport = transport;
+    this.minRequestInterval = options.minRequestInterval ?? 1000;
+    this.retryDelay = options.retryDelay ?? 1000;
+    this.sleep = options.sleep ?? (ms => new Promise(resolve => setTimeout(resolve, ms)));
     this.baseOptions = {
       timeout: options.timeout || 10000,
       retries: options.retries || 3,
@@ -91,60 +113,50 @@ export class KyobobookClient implements HttpClient {
    * 바이너리 이미지 → data URL로 반환 (hotlink 방지 대안)
    */
   async getDataUrl(url: string, options: RequestOptions = {}): Promise<string> {
+    const { data, contentType } = await this.getBinary(url, options);
+    return `data:${contentType};base64,${KyobobookClient.arrayBufferToBase64(data)}`;
+  }
+
+  /**
+   * 바이너리 GET (이미지 다운로드용, Content-Type이 없으면 확장자로 추정)
+   */
+  async getBinary(url: string, options: RequestOptions = {}): Promise<ImageBinary> {
     const merged = this.mergeOptions(options);
     await this.enforceRateLimit();
-    // Use Obsidian requestUrl to obtain arrayBuffer when available
-    let response: any;
-    const req = {
-      url,
-      method: 'GET',
-      headers: {
-        ...merged.headers,
-        'User-Agent': merged.userAgent,
-        'Accept': 'image/avif,image/webp,image/apng,image/*,*/*;q=0.8'
-      },
-      throw: false
-    } as any;
-
-    // Helper to guess mime
-    const guessMime = (u: string): string => {
-      const m = u.match(/\.(jpg|jpeg|png|gif|webp)(\?|$)/i);
-      if (!m) return 'image/jpeg';
-      const ext = m[1].toLowerCase();
-      return ext === 'jpg' ? 'image/jpeg' : `image/${ext}`;
-    };
 
+    let response;
     try {
-      if (typeof (globalThis as any).requestUrl !== 'undefined') {
-        response = await (globalThis as any).requestUrl(req);
-        const ab: ArrayBuffer = response.arrayBuffer ?? response.binary ?? null;
-        if (ab) {
-          const base64 = KyobobookClient.arrayBufferToBase64(ab);
-          return `data:${guessMime(url)};base64,${base64}`;
-        }
-        // Fallback to text->base64 if arrayBuffer missing
-        if (response.body) {
-          const enc = (globalThis as any).TextEncoder ? new TextEncoder() : null;
-          const buf = enc ? enc.encode(response.body) : null;
-          if (buf) {
-            const base64 = KyobobookClient.arrayBufferToBase64(buf.buffer);
-            return `data:${guessMime(url)};base64,${base64}`;
-          }
-        }
-      }
+      response = await this.transport.send({
+        url,
+        method: 'GET',
+        headers: {
+          ...merged.headers,
+          'User-Agent': merged.userAgent,
+          'Accept': 'image/avif,image/webp,image/apng,image/*,*/*;q=0.8'
+        },
+        timeout: merged.timeout
+      });
     } catch (e) {
-      this.logger.warn('KyobobookClient', 'getDataUrl requestUrl 실패', { url, error: e });
+      throw new NetworkError('이미지 데이터 가져오기 실패', 'KyobobookClient', { url }, e as Error);
     }
 
-    // 마지막 수단: fetch 사용 (일부 환경)
-    try {
-      const res = await fetch(url);
-      const ab = await res.arrayBuffer();
-      const base64 = KyobobookClient.arrayBufferToBase64(ab);
-      return `data:${guessMime(url)};base64,${base64}`;
-    } catch (e) {
-      throw new NetworkError('이미지 데이터 가져오기 실패', 'KyobobookClient', { url }, e as Error);
+    if (response.status >= 400) {
+      throw new NetworkError(`HTTP 오류: ${response.status}`, response.status, { url });
     }
+
+    // Content-Type이 없으면 확장자로 추정
+    const contentType = getHeader(response.headers, 'content-type');
+    return {
+      data: response.arrayBuffer,
+      contentType: contentType ? contentType.split(';')[0].trim().toLowerCase() : KyobobookClient.guessMime(url)
+    };
+  }
+
+  private static guessMime(url: string): string {
+    const m = url.match(/\.(jpg|jpeg|png|gif|webp)(\?|$)/i);
+    if (!m) return 'image/jpeg';
+    const ext = m[1].toLowerCase();
+    return ext === 'jpg' ? 'image/jpeg' : `image/${ext}`;
   }
 
   private static arrayBufferToBase64(buffer: ArrayBuffer): string {
@@ -164,31 +176,18 @@ export class KyobobookClient implements HttpClient {
     options: RequestOptions = {}
   ): Promise<HttpResponse> {
     const mergedOptions = this.mergeOptions(options);
-    const startTime = Date.now();
-
-    this.logger.debug('KyobobookClient', `${method} 요청 시작: ${url}`);
-
-    try {
-      // Rate limiting 적용
-      await this.enforceRateLimit();
-
-      // 재시도 로직
-      return await this.executeWithRetry(method, url, mergedOptions, startTime);
 
-    } catch (error) {
-      this.logger.error('KyobobookClient', `요청 실패: ${url}`, { error });
-
-      if (error instanceof NetworkError) {
-        throw error;
-      }
-
-      throw new NetworkError(
-        `HTTP 요청이 실패했습니다: ${url}`,
-        'KyobobookClient',
-        { url, method, originalError: error instanceof Error ? error.message : String(error) },
-        error instanceof Error ? error : undefined
-      );
+    if (method === 'GET') {
+      return this.getFlights.run(url, mergedOptions.timeout, () => this.send(method, url, mergedOptions));
     }
+    return this.send(method, url, mergedOptions);
+  }
+
+  /**
+   * 같은 URL 요청 병합 통계
+   */
+  getRequestStats(): SingleFlightStats {
+    return this.getFlights.getStats();
   }
 
   /**
@@ -228,6 +227,41 @@ export class KyobobookClient implements HttpClient {
 
   // === Private Methods ===
 
+  /**
+   * 요청 제한과 재시도를 거쳐 실제 요청 전송
+   */
+  private async send(
+    method: 'GET' | 'POST',
+    url: string,
+    mergedOptions: Required<RequestOptions>
+  ): Promise<HttpResponse> {
+    const startTime = Date.now();
+
+    this.logger.debug('KyobobookClient', `${method} 요청 시작: ${url}`);
+
+    try {
+      // Rate limiting 적용
+      await this.enforceRateLimit();
+
+      // 재시도 로직
+      return await this.executeWithRetry(method, url, mergedOptions, startTime);
+
+    } catch (error) {
+      this.logger.error('KyobobookClient', `요청 실패: ${url}`, { error });
+
+      if (error instanceof NetworkError) {
+        throw error;
+      }
+
+      throw new NetworkError(
+        `HTTP 요청이 실패했습니다: ${url}`,
+        'KyobobookClient',
+        { url, method, originalError: error instanceof Error ? error.message : String(error) },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
   /**
    * 옵션 병합
    */
@@ -244,19 +278,18 @@ export class KyobobookClient implements HttpClient {
   }
 
   /**
-   * Rate limiting 강제 적용
+   * Rate limiting 강제 적용 (동시에 들어온 요청도 순서대로 간격을 두도록 시작 시각을 먼저 예약)
    */
   private async enforceRateLimit(): Promise<void> {
     const now = Date.now();
-    const timeSinceLastRequest = now - this.lastRequestTime;
+    const scheduledTime = Math.max(now, this.lastRequestTime + this.minRequestInterval);
+    this.lastRequestTime = scheduledTime;
 
-    if (timeSinceLastRequest < this.minRequestInterval) {
-      const waitTime = this.minRequestInterval - timeSinceLastRequest;
+    const waitTime = scheduledTime - now;
+    if (waitTime > 0) {
       this.logger.debug('KyobobookClient', `Rate limit 대기: ${waitTime}ms`);
-      await new Promise(resolve => setTimeout(resolve, waitTime));
+      await this.sleep(waitTime);
     }
-
-    this.lastRequestTime = Date.now();
   }
 
   /**
@@ -293,9 +326,9 @@ export class KyobobookClient implements HttpClient {
           `요청 시도 ${attempt}/${options.retries} 실패`, { url, error: lastError });
 
         if (attempt < options.retries) {
-          // 지수 백오프 (1초, 2초, 4초)
-          const backoffTime = 1000 * Math.pow(2, attempt - 1);
-          await new Promise(resolve => setTimeout(resolve, backoffTime));
+          // 지수 백오프 (기본 1초, 2초, 4초)
+          const backoffTime = this.retryDelay * Math.pow(2, attempt - 1);
+          await this.sleep(backoffTime);
         }
       }
     }
@@ -309,35 +342,25 @@ export class KyobobookClient implements HttpClient {
   }
 
   /**
-   * 실제 HTTP 요청 실행 (Obsidian requestUrl 사용)
+   * 실제 HTTP 요청 실행 (전송 계층 사용)
    */
   private async executeRequest(
     method: 'GET' | 'POST',
     url: string,
     options: Required<RequestOptions>
   ): Promise<Omit<HttpResponse, 'responseTime'>> {
-    // Obsidian의 requestUrl API 사용
-    const requestOptions = {
-      url,
-      method,
-      headers: {
-        ...options.headers,
-        'User-Agent': options.userAgent
-      },
-      throw: false // 에러를 직접 처리
-    };
-
-    let response: any;
+    let response;
 
     try {
-      // @ts-ignore - Obsidian의 requestUrl은 global에 있을 수 있음
-      if (typeof requestUrl !== 'undefined') {
-        response = await requestUrl(requestOptions);
-      } else if (typeof window !== 'undefined' && (window as any).requestUrl) {
-        response = await (window as any).requestUrl(requestOptions);
-      } else {
-        throw new Error('requestUrl API를 찾을 수 없습니다');
-      }
+      response = await this.transport.send({
+        url,
+        method,
+        headers: {
+          ...options.headers,
+          'User-Agent': options.userAgent
+        },
+        timeout: options.timeout
+      });
     } catch (error) {
       throw new NetworkError(
         '네트워크 요청 실행 실패',
@@ -352,7 +375,7 @@ export class KyobobookClient implements HttpClient {
       throw new NetworkError(
         `HTTP 오류: ${response.status}`,
         'KyobobookClient',
-        { url, method, status: response.status, statusText: response.statusText }
+        { url, method, status: response.status }
       );
     }
 
@@ -368,7 +391,7 @@ export class KyobobookClient implements HttpClient {
     return {
       data: response.text,
       status: response.status,
-      headers: response.headers || {},
+      headers: response.headers,
       url: response.url || url
     };
   }
@@ -390,8 +413,8 @@ export class KyobobookClientFactory {
   /**
    * 개발 모드 클라이언트 생성
    */
-  static createDevelopmentClient(logger: Logger): KyobobookClient {
-    return new KyobobookClient(logger, {
+  static createDevelopmentClient(logger: Logger, transport: HttpTransport): KyobobookClient {
+    return new KyobobookClient(logger, transport, {
       timeout: 15000,
       retries: 2,
       headers: {
@@ -403,8 +426,8 @@ export class KyobobookClientFactory {
   /**
    * 프로덕션 모드 클라이언트 생성
    */
-  static createProductionClient(logger: Logger): KyobobookClient {
-    return new KyobobookClient(logger, {
+  static createProductionClient(logger: Logger, transport: HttpTransport): KyobobookClient {
+    return new KyobobookClient(logger, transport, {
       timeout: 10000,
       retries: 3
     });
@@ -413,10 +436,11 @@ export class KyobobookClientFactory {
   /**
    * 테스트 모드 클라이언트 생성
    */
-  static createTestClient(logger: Logger): KyobobookClient {
-    return new KyobobookClient(logger, {
+  static createTestClient(logger: Logger, transport: HttpTransport): KyobobookClient {
+    return new KyobobookClient(logger, transport, {
       timeout: 5000,
       retries: 1,
+      minRequestInterval: 0,
       headers: {
         'X-Test': 'true'
       }
@@ -0,0 +1,207 @@
+// 메모리 전송 (테스트용 가짜 응답과 녹화/재생)
+
+import { HttpMethod, HttpTransport, TransportRequest, TransportResponse, getHeader } from './HttpTransport';
+
+/**
+ * 가짜 응답 정의 (status 기본값 200)
+ */
+export interface MockResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: string | ArrayBuffer;
+}
+
+/**
+ * 요청 조건 (문자열은 URL 완전 일치)
+ */
+export type RequestMatcher = string | RegExp | ((request: TransportRequest) => boolean);
+
+/**
+ * 응답 방법 (Error면 연결 실패로 처리)
+ */
+export type MockReply = MockResponse | Error | ((request: TransportRequest) => MockResponse | Promise<MockResponse>);
+
+/**
+ * 녹화된 요청/응답 한 쌍
+ */
+export interface RecordedExchange {
+  request: { method: HttpMethod; url: string };
+  response: {
+    status: number;
+    headers: Record<string, string>;
+    body: string;
+    encoding?: 'base64'; // 바이너리 응답 (이미지 등)
+  };
+}
+
+/**
+ * 녹화 파일 형식 (tests/fixtures/http/*.json)
+ */
+export interface HttpRecording {
+  version: 1;
+  exchanges: RecordedExchange[];
+}
+
+interface Route {
+  matcher: RequestMatcher;
+  reply: MockReply;
+  remaining: number; // 남은 응답 횟수 (Infinity면 계속)
+}
+
+/**
+ * 메모리 전송 (네트워크 없이 미리 등록한 응답을 돌려줌)
+ *
+ * - 등록 순서대로 조건을 확인하고, times를 다 쓴 응답은 건너뜀
+ *   (예: 두 번 실패 후 성공 → on(url, error, { times: 2 }) 다음에 on(url, response))
+ * - 받은 요청은 requests에 남아 호출 횟수/헤더 검증에 사용
+ * - 등록되지 않은 요청은 연결 실패로 처리
+ */
+export class MemoryTransport implements HttpTransport {
+  readonly requests: TransportRequest[] = [];
+  private readonly routes: Route[] = [];
+
+  /**
+   * 녹화 파일로 재생용 전송 생성 (같은 요청이 여러 번 녹화됐으면 순서대로, 마지막 응답은 반복)
+   */
+  static fromRecording(recording: HttpRecording): MemoryTransport {
+    const transport = new MemoryTransport();
+    const counts = new Map<string, number>();
+    for (const { request } of recording.exchanges) {
+      const key = `${request.method} ${request.url}`;
+      counts.set(key, (counts.get(key) ?? 0) + 1);
+    }
+
+    for (const { request, response } of recording.exchanges) {
+      const key = `${request.method} ${request.url}`;
+      const left = (counts.get(key) ?? 1) - 1;
+      counts.set(key, left);
+      transport.on(
+        candidate => candidate.method === request.method && candidate.url === request.url,
+        {
+          status: response.status,
+          headers: response.headers,
+          body: response.encoding === 'base64' ? base64ToArrayBuffer(response.body) : response.body
+        },
+        { times: left > 0 ? 1 : Infinity }
+      );
+    }
+    return transport;
+  }
+
+  /**
+   * 응답 등록
+   */
+  on(matcher: RequestMatcher, reply: MockReply, options: { times?: number } = {}): this {
+    this.routes.push({ matcher, reply, remaining: options.times ?? Infinity });
+    return this;
+  }
+
+  /**
+   * 받은 요청 중 조건에 맞는 것
+   */
+  requestsFor(matcher: RequestMatcher): TransportRequest[] {
+    return this.requests.filter(request => matches(matcher, request));
+  }
+
+  /**
+   * 등록한 응답과 요청 기록 모두 지우기
+   */
+  reset(): void {
+    this.routes.length = 0;
+    this.requests.length = 0;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    this.requests.push(request);
+
+    const route = this.routes.find(candidate => candidate.remaining > 0 && matches(candidate.matcher, request));
+    if (!route) {
+      throw new Error(`등록되지 않은 요청: ${request.method} ${request.url}`);
+    }
+    route.remaining--;
+
+    if (route.reply instanceof Error) {
+      throw route.reply;
+    }
+    const mock = typeof route.reply === 'function' ? await route.reply(request) : route.reply;
+    return toTransportResponse(mock, request.url);
+  }
+}
+
+/**
+ * 녹화 전송 (실제 전송을 감싸 요청/응답을 기록, fromRecording으로 재생)
+ */
+export class RecordingTransport implements HttpTransport {
+  private readonly inner: HttpTransport;
+  private readonly exchanges: RecordedExchange[] = [];
+
+  constructor(inner: HttpTransport) {
+    this.inner = inner;
+  }
+
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await this.inner.send(request);
+    const binary = !isTextContentType(getHeader(response.headers, 'content-type'));
+
+    this.exchanges.push({
+      request: { method: request.method, url: request.url },
+      response: {
+        status: response.status,
+        headers: { ...response.headers },
+        body: binary ? arrayBufferToBase64(response.arrayBuffer) : response.text,
+        ...(binary ? { encoding: 'base64' as const } : {})
+      }
+    });
+    return response;
+  }
+
+  /**
+   * 지금까지 녹화한 내용 (JSON으로 저장해 재생)
+   */
+  getRecording(): HttpRecording {
+    return { version: 1, exchanges: this.exchanges.map(exchange => ({ ...exchange })) };
+  }
+}
+
+// === Helpers ===
+
+function matches(matcher: RequestMatcher, request: TransportRequest): boolean {
+  if (typeof matcher === 'string') return matcher === request.url;
+  if (matcher instanceof RegExp) return matcher.test(request.url);
+  return matcher(request);
+}
+
+function toTransportResponse(mock: MockResponse, url: string): TransportResponse {
+  const body = mock.body ?? '';
+  const arrayBuffer = typeof body === 'string' ? toArrayBuffer(new TextEncoder().encode(body)) : body;
+  return {
+    status: mock.status ?? 200,
+    headers: mock.headers ?? {},
+    text: typeof body === 'string' ? body : new TextDecoder().decode(body),
+    arrayBuffer,
+    url
+  };
+}
+
+function isTextContentType(contentType: string | undefined): boolean {
+  if (!contentType) return true;
+  return /^text\/|json|xml|javascript/i.test(contentType);
+}
+
+function toArrayBuffer(bytes: Uint8Array): ArrayBuffer {
+  return bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength);
+}
+
+function arrayBufferToBase64(buffer: ArrayBuffer): string {
+  let binary = '';
+  const bytes = new Uint8Array(buffer);
+  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
+  return btoa(binary);
+}
+
+function base64ToArrayBuffer(base64: string): ArrayBuffer {
+  const binary = atob(base64);
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes.buffer;
+}
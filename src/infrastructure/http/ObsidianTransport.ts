@@ -0,0 +1,39 @@
+// Obsidian requestUrl 전송
+
+import { requestUrl, RequestUrlResponse } from 'obsidian';
+import { HttpTransport, TransportRequest, TransportResponse } from './HttpTransport';
+
+/**
+ * Obsidian requestUrl 전송 (플러그인 실행 시 사용, CORS 제한 없음)
+ *
+ * requestUrl은 타임아웃을 지원하지 않으므로 request.timeout은 무시합니다.
+ */
+export class ObsidianTransport implements HttpTransport {
+  async send(request: TransportRequest): Promise<TransportResponse> {
+    const response = await requestUrl({
+      url: request.url,
+      method: request.method,
+      headers: request.headers,
+      body: request.body,
+      throw: false // 상태 코드 처리는 클라이언트에서
+    });
+    return toTransportResponse(response, request.url);
+  }
+}
+
+/**
+ * 본문은 실제로 읽을 때 변환 (바이너리 응답을 텍스트로 디코딩하지 않도록)
+ */
+function toTransportResponse(response: RequestUrlResponse, url: string): TransportResponse {
+  return {
+    status: response.status,
+    headers: response.headers || {},
+    get text() {
+      return response.text;
+    },
+    get arrayBuffer() {
+      return response.arrayBuffer;
+    },
+    url
+  };
+}
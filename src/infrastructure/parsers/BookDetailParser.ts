@@ -1,7 +1,7 @@
 // 도서 상세 정보 파싱 클래스
 
 import { BaseParser } from './BaseParser';
-import { Book, UpdateBookInput, BookFactory } from '../../domain/models/Book';
+import { Book, CoverImageCandidate, UpdateBookInput, BookFactory } from '../../domain/models/Book';
 import { ParseError } from '../../domain/models/Errors';
 import { SELECTORS, PATTERNS, LIMITS } from '../../shared/constants/selectors';
 import { TextUtils } from '../../shared/utils/TextUtils';
@@ -26,6 +26,11 @@ export class BookDetailParser extends BaseParser {
    * 기존 Book 객체에 상세 정보 추가
    */
   enrichBook(book: Book): Book {
+    // 빈 응답을 빈 상세 정보로 캐시하지 않도록 오류로 처리
+    if (this.isEmptyPage()) {
+      throw new ParseError('상세 페이지 내용이 비어 있습니다', 'BookDetailParser', { bookId: book.id });
+    }
+
     try {
       const updates = this.extractDetailedInfo();
 
@@ -52,6 +57,14 @@ export class BookDetailParser extends BaseParser {
     }
   }
 
+  /**
+   * 본문 텍스트와 JSON-LD가 모두 없는 빈 페이지인지 확인
+   */
+  private isEmptyPage(): boolean {
+    const text = (this.document.body?.textContent || '').trim();
+    return !text && !this.querySelector('script[type="application/ld+json"]');
+  }
+
   /**
    * 상세 정보 추출
    */
@@ -153,9 +166,10 @@ export class BookDetailParser extends BaseParser {
 
     // 표지 이미지 추출 (더 고해상도)
     try {
-      const coverImageUrl = this.extractCoverImage();
-      if (coverImageUrl) {
-        updates.coverImageUrl = coverImageUrl;
+      const coverCandidates = this.extractCoverCandidates();
+      if (coverCandidates.length > 0) {
+        updates.coverImageUrl = coverCandidates[0].url;
+        updates.coverImageCandidates = coverCandidates;
         this.parseResults.coverImage = true;
       }
     } catch (error) {
@@ -661,44 +675,42 @@ export class BookDetailParser extends BaseParser {
   }
 
   /**
-   * 표지 이미지 추출 (고해상도)
+   * 표지 후보 추출 (og:image → JSON-LD image → 본문 이미지 순, 중복 제외)
+   * 실제 이미지인지와 해상도는 CoverResolver가 확인
    */
-  private extractCoverImage(): string | undefined {
-    // 0차: 상세 표지 전용 컨테이너 우선
-    const portrait = this.querySelector('.portrait_img_box img') as HTMLImageElement | null;
-    if (portrait) {
-      const psrc = this.extractImageUrl(portrait);
-      if (psrc && UrlUtils.isValidImageUrl(psrc)) {
-        return UrlUtils.optimizeImageUrl(psrc, { width: 300, format: 'jpg' });
-      }
-    }
+  private extractCoverCandidates(): CoverImageCandidate[] {
+    const candidates: CoverImageCandidate[] = [];
+    const add = (url: string | undefined, source: CoverImageCandidate['source']) => {
+      if (!url || !UrlUtils.isValidImageUrl(url)) return;
+      if (candidates.some(candidate => candidate.url === url)) return;
+      candidates.push({ url, source });
+    };
 
-    // 1차: 메타 태그에서 추출
-    const ogImage = this.extractFromMeta('og:image');
-    if (ogImage && UrlUtils.isValidImageUrl(ogImage)) {
-      return ogImage;
-    }
+    // 1차: 메타 태그
+    add(this.extractFromMeta('og:image'), 'og:image');
+
+    // 2차: JSON-LD (문자열, 배열, ImageObject 모두 허용)
+    const ldImage: unknown = this.extractFromJsonLd()?.image;
+    const ldFirst = Array.isArray(ldImage) ? ldImage[0] : ldImage;
+    add(typeof ldFirst === 'string' ? ldFirst : (ldFirst as { url?: string } | undefined)?.url, 'json-ld');
 
-    const twitterImage = this.extractFromMeta('twitter:image');
-    if (twitterImage && UrlUtils.isValidImageUrl(twitterImage)) {
-      return twitterImage;
+    // 3차: 상세 표지 전용 컨테이너, 트위터 카드, 그 밖의 표지 이미지 요소 (고해상도 버전으로 최적화)
+    const portrait = this.querySelector('.portrait_img_box img') as HTMLImageElement | null;
+    const portraitUrl = portrait ? this.extractImageUrl(portrait) : undefined;
+    if (portraitUrl && UrlUtils.isValidImageUrl(portraitUrl)) {
+      add(UrlUtils.optimizeImageUrl(portraitUrl, { width: 300, format: 'jpg' }), 'page');
     }
 
-    // 2차: 이미지 요소에서 추출
-    const images = this.findAllBySelectors(SELECTORS.COVER_IMAGE);
+    add(this.extractFromMeta('twitter:image'), 'page');
 
-    for (const img of images) {
+    for (const img of this.findAllBySelectors(SELECTORS.COVER_IMAGE)) {
       const imageUrl = this.extractImageUrl(img);
       if (imageUrl && UrlUtils.isValidImageUrl(imageUrl)) {
-        // 고해상도 버전으로 최적화
-        return UrlUtils.optimizeImageUrl(imageUrl, {
-          width: 300,
-          format: 'jpg'
-        });
+        add(UrlUtils.optimizeImageUrl(imageUrl, { width: 300, format: 'jpg' }), 'page');
       }
     }
 
-    return undefined;
+    return candidates;
   }
 
   /**
@@ -0,0 +1,171 @@
+// 독서 기록 CSV 파서 (Goodreads / 왓챠피디아 / Yes24 내보내기)
+
+import { ValidationError } from '../../domain/models/Errors';
+import { CsvUtils } from '../../shared/utils/CsvUtils';
+import { TextUtils } from '../../shared/utils/TextUtils';
+
+/**
+ * 지원하는 CSV 형식
+ */
+export type ReadingHistoryFormat = 'goodreads' | 'watcha' | 'yes24' | 'generic';
+
+/**
+ * 책장 상태 (알 수 없는 값은 원본 문자열 유지)
+ */
+export type ReadingShelf = 'read' | 'reading' | 'to-read' | string;
+
+/**
+ * 노트 frontmatter로 옮길 사용자 독서 정보
+ */
+export interface ReadingInfo {
+  myRating?: number;   // 5점 만점
+  shelf?: ReadingShelf;
+  dateRead?: string;   // YYYY-MM-DD
+  dateAdded?: string;  // YYYY-MM-DD
+}
+
+/**
+ * CSV 한 행에서 추출한 도서 기록
+ */
+export interface ReadingHistoryRecord {
+  row: number;        // CSV 행 번호 (헤더 다음 행이 2)
+  title: string;
+  author?: string;
+  isbn?: string;      // 정규화된 ISBN
+  reading: ReadingInfo;
+}
+
+/**
+ * 형식별 열 이름 후보 (앞쪽이 우선)
+ */
+const COLUMN_ALIASES: Record<'title' | 'author' | 'isbn' | 'isbn10' | 'rating' | 'shelf' | 'dateRead' | 'dateAdded', string[]> = {
+  title: ['Title', '제목', '도서명', '책 제목', '상품명'],
+  author: ['Author', '저자', '지은이', '저자/역자', '작가'],
+  isbn: ['ISBN13', 'ISBN', 'isbn13', 'isbn', 'ISBN(13)'],
+  isbn10: ['ISBN', 'ISBN10'],
+  rating: ['My Rating', '내 별점', '별점', '평점', '내 평점', '나의 평점'],
+  shelf: ['Exclusive Shelf', '상태', '책장', '분류', '독서 상태'],
+  dateRead: ['Date Read', '읽은 날짜', '완독일', '독서 완료일', '다 읽은 날'],
+  dateAdded: ['Date Added', '등록일', '추가한 날짜', '담은 날짜', '구매일']
+};
+
+/**
+ * 책장 이름 정규화 규칙
+ */
+const SHELF_ALIASES: Array<[RegExp, ReadingShelf]> = [
+  [/^(read|읽은\s*책|읽었어요|완독|다\s*읽음)$/i, 'read'],
+  [/^(currently-reading|읽는\s*중|읽고\s*있어요|읽고\s*있는\s*책)$/i, 'reading'],
+  [/^(to-read|읽고\s*싶어요|보고\s*싶어요|읽을\s*책|찜|위시리스트)$/i, 'to-read']
+];
+
+/**
+ * 독서 기록 CSV 파서
+ *
+ * Goodreads 내보내기는 정해진 열 이름을 사용하고, 국내 서비스는 한국어 열 이름을
+ * 기준으로 매핑합니다. 제목 열이 없으면 ValidationError를 던집니다.
+ */
+export class ReadingHistoryCsvParser {
+  private readonly text: string;
+
+  constructor(text: string) {
+    this.text = text;
+  }
+
+  /**
+   * 헤더로 형식 추정
+   */
+  static detectFormat(headers: string[]): ReadingHistoryFormat {
+    const has = (name: string) => headers.includes(name);
+
+    if (has('Book Id') || has('Exclusive Shelf')) return 'goodreads';
+    if (has('상품명') || has('상품번호')) return 'yes24';
+    if (has('별점') || headers.some(header => /왓챠|watcha/i.test(header))) return 'watcha';
+    return 'generic';
+  }
+
+  /**
+   * 행별 도서 기록 파싱
+   */
+  parse(): { format: ReadingHistoryFormat; records: ReadingHistoryRecord[] } {
+    const { headers, records } = CsvUtils.parseRecords(this.text);
+    const format = ReadingHistoryCsvParser.detectFormat(headers);
+
+    const titleColumn = findColumn(headers, COLUMN_ALIASES.title);
+    if (!titleColumn) {
+      throw new ValidationError(
+        `CSV에서 제목 열을 찾을 수 없습니다 (${COLUMN_ALIASES.title.join(', ')} 중 하나가 필요합니다)`,
+        undefined,
+        undefined,
+        { headers }
+      );
+    }
+
+    const columns = {
+      author: findColumn(headers, COLUMN_ALIASES.author),
+      isbn: findColumn(headers, COLUMN_ALIASES.isbn),
+      isbn10: findColumn(headers, COLUMN_ALIASES.isbn10),
+      rating: findColumn(headers, COLUMN_ALIASES.rating),
+      shelf: findColumn(headers, COLUMN_ALIASES.shelf),
+      dateRead: findColumn(headers, COLUMN_ALIASES.dateRead),
+      dateAdded: findColumn(headers, COLUMN_ALIASES.dateAdded)
+    };
+    const read = (record: Record<string, string>, column?: string) => (column ? record[column] : '') || '';
+
+    const parsed: ReadingHistoryRecord[] = [];
+    records.forEach((record, index) => {
+      const title = TextUtils.clean(read(record, titleColumn));
+      if (!title) return;
+
+      parsed.push({
+        row: index + 2,
+        title,
+        author: TextUtils.clean(read(record, columns.author).split(/[,;]/)[0]) || undefined,
+        isbn: parseIsbn(read(record, columns.isbn)) ?? parseIsbn(read(record, columns.isbn10)),
+        reading: {
+          myRating: parseRating(read(record, columns.rating), format),
+          shelf: parseShelf(read(record, columns.shelf)),
+          dateRead: parseDate(read(record, columns.dateRead)),
+          dateAdded: parseDate(read(record, columns.dateAdded))
+        }
+      });
+    });
+
+    return { format, records: parsed };
+  }
+}
+
+function findColumn(headers: string[], aliases: string[]): string | undefined {
+  return aliases.find(alias => headers.includes(alias));
+}
+
+/**
+ * Goodreads는 ISBN을 ="9780316769488" 형태로 내보냄
+ */
+function parseIsbn(value: string): string | undefined {
+  const cleaned = value.replace(/^="?|"$/g, '');
+  return cleaned ? TextUtils.normalizeISBN(cleaned) : undefined;
+}
+
+/**
+ * 평점을 5점 만점으로 변환 (Goodreads의 0은 평가 없음, 10점 만점 값은 절반으로)
+ */
+function parseRating(value: string, format: ReadingHistoryFormat): number | undefined {
+  const rating = parseFloat(value.replace(/[^\d.]/g, ''));
+  if (isNaN(rating) || rating <= 0) return undefined;
+  if (format !== 'goodreads' && rating > 5) return Math.round(rating * 5) / 10;
+  return rating;
+}
+
+function parseShelf(value: string): ReadingShelf | undefined {
+  const shelf = value.trim();
+  if (!shelf) return undefined;
+
+  for (const [pattern, normalized] of SHELF_ALIASES) {
+    if (pattern.test(shelf)) return normalized;
+  }
+  return shelf;
+}
+
+function parseDate(value: string): string | undefined {
+  return value ? TextUtils.normalizeDateString(value) : undefined;
+}
@@ -31,6 +31,10 @@ export class SearchResultParser extends BaseParser {
       this.parseMetrics.totalItems = itemElements.length;
 
       if (itemElements.length === 0) {
+        const errorPage = this.detectErrorPage();
+        if (errorPage) {
+          throw new ParseError(`교보문고가 오류 페이지를 반환했습니다: ${errorPage}`, 'SearchResultParser', { errorPage });
+        }
         throw new ParseError('검색 결과 아이템을 찾을 수 없습니다', 'SearchResultParser');
       }
 
@@ -301,6 +305,15 @@ export class SearchResultParser extends BaseParser {
       if (tt && !invalidTitles.has(tt.toLowerCase())) return tt;
     }
 
+    // 마지막: 상품 데이터 속성 (표지 data-kbbfn-title, 체크박스 data-name)
+    // 상품명 영역이 비었거나 잘린 응답에서도 제목을 얻을 수 있음
+    const dataTitle = this.extractAttribute(item.querySelector('[data-kbbfn-title]'), 'data-kbbfn-title')
+      || this.extractAttribute(item.querySelector('input[data-name]'), 'data-name');
+    if (dataTitle) {
+      const dt = TextUtils.cleanTitle(dataTitle);
+      if (dt && !invalidTitles.has(dt.toLowerCase())) return dt;
+    }
+
     return '';
   }
 
@@ -394,6 +407,14 @@ export class SearchResultParser extends BaseParser {
     return '';
   }
 
+  /**
+   * 서버 오류 페이지(예: "400 Bad request")면 제목 반환
+   */
+  private detectErrorPage(): string | undefined {
+    const heading = this.extractText(this.querySelector('h1')) || this.extractText(this.querySelector('title'));
+    return /^[45]\d{2}\b/.test(heading) ? heading : undefined;
+  }
+
   /**
    * 패키지 상품인지 확인
    */
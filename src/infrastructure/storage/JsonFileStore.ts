@@ -0,0 +1,58 @@
+import type { DataAdapter } from 'obsidian';
+import { FileSystemError } from '../../domain/models/Errors';
+import { Logger } from '../../shared/utils/Logger';
+
+/**
+ * 플러그인 폴더의 JSON 파일에 상태를 저장하는 저장소
+ * - 파일이 없거나 손상되었으면 null 반환
+ * - 쓰기 실패는 FileSystemError로 전달
+ */
+export class JsonFileStore<T> {
+  private readonly adapter: DataAdapter;
+  private readonly filePath: string; // vault 상대 경로
+  private readonly logger: Logger;
+
+  constructor(adapter: DataAdapter, filePath: string, logger: Logger) {
+    this.adapter = adapter;
+    this.filePath = filePath;
+    this.logger = logger;
+  }
+
+  async load(): Promise<T | null> {
+    try {
+      if (!(await this.adapter.exists(this.filePath))) return null;
+      return JSON.parse(await this.adapter.read(this.filePath)) as T;
+    } catch (error) {
+      this.logger.warn('JsonFileStore', `상태 파일을 읽을 수 없습니다: ${this.filePath}`, { error });
+      return null;
+    }
+  }
+
+  async save(data: T): Promise<void> {
+    try {
+      const folder = this.filePath.split('/').slice(0, -1).join('/');
+      if (folder && !(await this.adapter.exists(folder))) {
+        await this.adapter.mkdir(folder);
+      }
+      await this.adapter.write(this.filePath, JSON.stringify(data));
+    } catch (error) {
+      throw new FileSystemError(
+        '상태 파일을 저장할 수 없습니다',
+        this.filePath,
+        'write',
+        undefined,
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  async clear(): Promise<void> {
+    try {
+      if (await this.adapter.exists(this.filePath)) {
+        await this.adapter.remove(this.filePath);
+      }
+    } catch (error) {
+      this.logger.warn('JsonFileStore', `상태 파일을 삭제할 수 없습니다: ${this.filePath}`, { error });
+    }
+  }
+}
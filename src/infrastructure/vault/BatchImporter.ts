@@ -0,0 +1,382 @@
+// 도서 목록 일괄 가져오기 (ISBN / 교보문고 URL / "제목 / 저자" / 독서 기록 CSV)
+
+import { App, TFile, normalizePath } from 'obsidian';
+import { Book } from '../../domain/models/Book';
+import { OfflineError, PluginError } from '../../domain/models/Errors';
+import { BookService } from '../../application/services/BookService';
+import { KyobobookPluginSettings } from '../../types';
+import { Logger } from '../../shared/utils/Logger';
+import { UrlUtils } from '../../shared/utils/UrlUtils';
+import { JsonFileStore } from '../storage/JsonFileStore';
+import { ReadingHistoryCsvParser, ReadingHistoryFormat, ReadingInfo } from '../parsers/ReadingHistoryCsvParser';
+import { BookNoteWriter } from './BookNoteWriter';
+import { OfflineImportQueue } from './OfflineImportQueue';
+
+/**
+ * 줄별 처리 상태
+ */
+export type BatchLineStatus =
+  | 'pending'    // 아직 처리 전
+  | 'created'    // 노트 생성
+  | 'existing'   // 이미 노트가 있어 건너뜀
+  | 'ambiguous'  // 후보가 여럿이라 직접 선택 필요
+  | 'notFound'   // 검색 결과 없음
+  | 'failed'     // 오류
+  | 'queued'     // 오프라인이라 가져오기 대기열에 넣음 (임시 노트 생성)
+  | 'skipped';   // 사용자가 건너뜀
+
+/**
+ * 직접 선택용 후보 (저장 파일 크기를 줄이기 위해 요약만 보관)
+ */
+export interface BatchCandidate {
+  id: string;
+  title: string;
+  authors: string[];
+  publisher: string;
+  publishDate?: string;
+}
+
+/**
+ * 가져오기 목록의 한 줄
+ */
+export interface BatchImportLine {
+  line: number;   // 원본 줄 번호 (1부터)
+  input: string;
+  status: BatchLineStatus;
+  message?: string;
+  title?: string;
+  notePath?: string;
+  candidates?: BatchCandidate[];
+  query?: { isbn?: string; title: string; author?: string }; // CSV 행: ISBN 우선, 제목+저자 보조
+  reading?: ReadingInfo; // CSV 행: 노트 frontmatter로 옮길 독서 정보
+}
+
+/**
+ * 일괄 가져오기 작업 (중단 후 이어하기를 위해 파일에 저장)
+ */
+export interface BatchImportJob {
+  createdAt: string;
+  source?: string; // 불러온 vault 파일 경로
+  format?: ReadingHistoryFormat; // CSV에서 만든 작업이면 그 형식
+  lines: BatchImportLine[];
+}
+
+/**
+ * 일괄 가져오기 실행 옵션
+ */
+export interface BatchImportOptions {
+  onLineUpdate?: (line: BatchImportLine, job: BatchImportJob) => void;
+  isCancelled?: () => boolean;
+}
+
+const MAX_CANDIDATES = 5;
+
+/**
+ * 도서 목록 일괄 가져오기
+ *
+ * 줄마다 순서대로 검색/상세 조회 후 노트를 만들며, 요청 간격은 KyobobookClient의
+ * 요청 제한을 따릅니다. 각 줄을 처리할 때마다 작업 상태를 저장하므로
+ * Obsidian을 닫았다가 다시 열어도 남은 줄부터 이어서 진행할 수 있습니다.
+ * 오프라인이라 찾지 못한 줄은 오프라인 가져오기 대기열로 넘깁니다.
+ */
+export class BatchImporter {
+  private readonly app: App;
+  private readonly bookService: BookService;
+  private readonly noteWriter: BookNoteWriter;
+  private readonly store: JsonFileStore<BatchImportJob>;
+  private readonly logger: Logger;
+  private readonly getSettings: () => KyobobookPluginSettings;
+  private readonly offlineQueue?: OfflineImportQueue;
+
+  constructor(
+    app: App,
+    bookService: BookService,
+    noteWriter: BookNoteWriter,
+    store: JsonFileStore<BatchImportJob>,
+    logger: Logger,
+    getSettings: () => KyobobookPluginSettings,
+    offlineQueue?: OfflineImportQueue
+  ) {
+    this.app = app;
+    this.bookService = bookService;
+    this.noteWriter = noteWriter;
+    this.store = store;
+    this.logger = logger;
+    this.getSettings = getSettings;
+    this.offlineQueue = offlineQueue;
+  }
+
+  /**
+   * 입력 텍스트로 새 작업 생성 (빈 줄과 '#' 주석 줄 제외)
+   */
+  createJob(text: string, source?: string): BatchImportJob {
+    const lines: BatchImportLine[] = [];
+    text.split(/\r?\n/).forEach((raw, index) => {
+      const input = raw.replace(/^\s*[-*]\s+/, '').trim();
+      if (!input || input.startsWith('#')) return;
+      lines.push({ line: index + 1, input, status: 'pending' });
+    });
+
+    return { createdAt: new Date().toISOString(), source, lines };
+  }
+
+  /**
+   * 독서 기록 CSV(Goodreads/왓챠피디아/Yes24)로 새 작업 생성
+   */
+  createJobFromCsv(text: string, source?: string): BatchImportJob {
+    const { format, records } = new ReadingHistoryCsvParser(text).parse();
+
+    const lines = records.map<BatchImportLine>(record => ({
+      line: record.row,
+      input: [record.title, record.author].filter(Boolean).join(' / ') + (record.isbn ? ` (ISBN ${record.isbn})` : ''),
+      status: 'pending',
+      query: { isbn: record.isbn, title: record.title, author: record.author },
+      reading: record.reading
+    }));
+
+    this.logger.info('BatchImporter', `CSV 작업 생성: ${format} 형식 ${lines.length}행`, { source });
+    return { createdAt: new Date().toISOString(), source, format, lines };
+  }
+
+  /**
+   * 매칭하지 못한 줄(선택 필요/찾지 못함/실패)을 검토 목록 노트로 작성
+   */
+  async writeReviewNote(job: BatchImportJob): Promise<TFile | null> {
+    const unresolved = job.lines.filter(line =>
+      line.status === 'ambiguous' || line.status === 'notFound' || line.status === 'failed'
+    );
+    if (unresolved.length === 0) return null;
+
+    const folder = this.getSettings().saveFolder ? normalizePath(this.getSettings().saveFolder) : '';
+    const baseName = `교보문고 가져오기 검토 목록 ${job.createdAt.slice(0, 10)}`;
+    let path = folder ? `${folder}/${baseName}.md` : `${baseName}.md`;
+    let counter = 1;
+    while (this.app.vault.getAbstractFileByPath(path)) {
+      const name = `${baseName} (${counter++})`;
+      path = folder ? `${folder}/${name}.md` : `${name}.md`;
+    }
+
+    const lines: string[] = [
+      '# 교보문고 가져오기 검토 목록',
+      '',
+      `- 원본: ${job.source ?? '직접 입력'}${job.format ? ` (${job.format})` : ''}`,
+      `- 확인 필요: ${unresolved.length}개`,
+      '',
+      '교보문고 URL/ISBN으로 도서 가져오기 명령에 아래 후보의 링크를 붙여넣으면 노트를 만들 수 있습니다.',
+      ''
+    ];
+    for (const line of unresolved) {
+      lines.push(`- [ ] ${line.line}행: ${line.input} — ${line.message ?? ''}`);
+      for (const candidate of line.candidates ?? []) {
+        const url = UrlUtils.buildDetailPageUrl(candidate.id);
+        lines.push(`    - [${candidate.title}](${url}) · ${candidate.authors.join(', ')} · ${candidate.publisher}`);
+      }
+    }
+
+    return this.app.vault.create(path, lines.join('\n') + '\n');
+  }
+
+  /**
+   * 저장된(중단된) 작업 불러오기
+   */
+  async loadJob(): Promise<BatchImportJob | null> {
+    const job = await this.store.load();
+    return job && Array.isArray(job.lines) ? job : null;
+  }
+
+  async saveJob(job: BatchImportJob): Promise<void> {
+    await this.store.save(job);
+  }
+
+  async discardJob(): Promise<void> {
+    await this.store.clear();
+  }
+
+  /**
+   * 대기 중인 줄을 순서대로 처리
+   */
+  async run(job: BatchImportJob, options: BatchImportOptions = {}): Promise<void> {
+    await this.saveJob(job);
+
+    for (const line of job.lines) {
+      if (line.status !== 'pending') continue;
+      if (options.isCancelled?.()) break;
+
+      await this.processLine(line);
+      await this.saveJob(job);
+      options.onLineUpdate?.(line, job);
+
+      // UI 스레드 양보
+      await new Promise(resolve => window.setTimeout(resolve, 0));
+    }
+
+    this.logger.info('BatchImporter', '일괄 가져오기 진행 상황', countStatuses(job));
+  }
+
+  /**
+   * 모호한 줄에서 사용자가 고른 후보로 노트 생성
+   */
+  async resolveLine(job: BatchImportJob, line: BatchImportLine, candidateId: string): Promise<void> {
+    try {
+      const detail = await this.bookService.getBookDetail(candidateId, 15000, {
+        tocApiFirst: this.getSettings().tocApiFirst
+      });
+      await this.writeNote(line, detail.book);
+    } catch (error) {
+      this.markFailed(line, error);
+    }
+    await this.saveJob(job);
+  }
+
+  /**
+   * 줄을 건너뜀으로 표시
+   */
+  async skipLine(job: BatchImportJob, line: BatchImportLine): Promise<void> {
+    line.status = 'skipped';
+    line.message = '건너뜀';
+    await this.saveJob(job);
+  }
+
+  // === Private Methods ===
+
+  private async processLine(line: BatchImportLine): Promise<void> {
+    const settings = this.getSettings();
+    const searchOptions = { maxResults: settings.maxSearchResults, timeout: 15000 };
+
+    try {
+      const reference = line.query ? null : this.bookService.parseBookReference(line.input);
+      let book: Book | undefined;
+      let candidates: Book[];
+
+      if (line.query) {
+        ({ book, candidates } = await this.matchQuery(line.query));
+      } else if (reference) {
+        const result = await this.bookService.lookupBookReference(reference, {
+          ...searchOptions,
+          tocApiFirst: settings.tocApiFirst
+        });
+        book = result.detail?.book;
+        candidates = result.candidates;
+      } else {
+        const [title, author] = line.input.split(/\s+\/\s+|\t/).map(part => part.trim());
+        const match = await this.bookService.matchBookByTitle(title, author || undefined, searchOptions);
+        candidates = match.candidates;
+        if (match.book) {
+          book = (await this.bookService.getBookDetail(match.book.id, 15000, {
+            tocApiFirst: settings.tocApiFirst
+          })).book;
+        }
+      }
+
+      if (book) {
+        await this.writeNote(line, book);
+      } else if (candidates.length > 0) {
+        line.status = 'ambiguous';
+        line.message = `후보 ${candidates.length}개 - 직접 선택 필요`;
+        line.candidates = candidates.slice(0, MAX_CANDIDATES).map(toCandidate);
+      } else {
+        line.status = 'notFound';
+        line.message = '검색 결과 없음';
+      }
+    } catch (error) {
+      if (error instanceof OfflineError && this.offlineQueue) {
+        await this.queueLine(line, this.offlineQueue);
+        return;
+      }
+      this.markFailed(line, error);
+    }
+  }
+
+  /**
+   * 오프라인 가져오기 대기열에 넣기 (CSV 행은 ISBN, 없으면 "제목 / 저자")
+   */
+  private async queueLine(line: BatchImportLine, queue: OfflineImportQueue): Promise<void> {
+    const input = line.query
+      ? line.query.isbn || [line.query.title, line.query.author].filter(Boolean).join(' / ')
+      : line.input;
+
+    try {
+      const file = await queue.enqueue(input);
+      line.status = 'queued';
+      line.message = '오프라인 - 가져오기 대기열에 추가';
+      line.notePath = file.path;
+    } catch (error) {
+      this.markFailed(line, error);
+    }
+  }
+
+  /**
+   * CSV 행 매칭: ISBN으로 먼저 찾고, 실패하면 제목+저자 유사도로 찾기
+   */
+  private async matchQuery(query: NonNullable<BatchImportLine['query']>): Promise<{ book?: Book; candidates: Book[] }> {
+    const settings = this.getSettings();
+    const detailOptions = { tocApiFirst: settings.tocApiFirst };
+    const searchOptions = { maxResults: settings.maxSearchResults, timeout: 15000 };
+    let isbnCandidates: Book[] = [];
+
+    if (query.isbn) {
+      const result = await this.bookService.lookupBookReference({ type: 'isbn', isbn: query.isbn }, {
+        ...searchOptions,
+        ...detailOptions
+      });
+      if (result.detail) return { book: result.detail.book, candidates: [] };
+      isbnCandidates = result.candidates;
+    }
+
+    const match = await this.bookService.matchBookByTitle(query.title, query.author, searchOptions);
+    if (match.book) {
+      const detail = await this.bookService.getBookDetail(match.book.id, 15000, detailOptions);
+      return { book: detail.book, candidates: [] };
+    }
+
+    return { candidates: match.candidates.length > 0 ? match.candidates : isbnCandidates };
+  }
+
+  private async writeNote(line: BatchImportLine, book: Book): Promise<void> {
+    line.title = book.title;
+    line.candidates = undefined;
+
+    const existing = this.noteWriter.findExistingNote(book);
+    if (existing) {
+      // 기존 노트에는 비어 있는 독서 정보만 채움
+      if (line.reading) await this.noteWriter.setFrontmatterFields(existing, { ...line.reading }, false);
+      line.status = 'existing';
+      line.message = '이미 노트가 있음';
+      line.notePath = existing.path;
+      return;
+    }
+
+    const file = await this.noteWriter.createNote(book);
+    if (line.reading) await this.noteWriter.setFrontmatterFields(file, { ...line.reading });
+    line.status = 'created';
+    line.message = '노트 생성';
+    line.notePath = file.path;
+  }
+
+  private markFailed(line: BatchImportLine, error: unknown): void {
+    line.status = 'failed';
+    line.message = error instanceof PluginError ? error.getUserMessage() : String(error);
+    this.logger.warn('BatchImporter', `${line.line}번째 줄 처리 실패: ${line.input}`, { error });
+  }
+}
+
+/**
+ * 상태별 줄 개수
+ */
+export function countStatuses(job: BatchImportJob): Record<BatchLineStatus, number> {
+  const counts: Record<BatchLineStatus, number> = {
+    pending: 0, created: 0, existing: 0, ambiguous: 0, notFound: 0, failed: 0, queued: 0, skipped: 0
+  };
+  for (const line of job.lines) counts[line.status]++;
+  return counts;
+}
+
+function toCandidate(book: Book): BatchCandidate {
+  return {
+    id: book.id,
+    title: book.title,
+    authors: [...book.authors],
+    publisher: book.publisher,
+    publishDate: book.publishDate
+  };
+}
@@ -0,0 +1,448 @@
+// 도서 노트 생성/갱신 (Obsidian Vault)
+
+import { App, TFile, normalizePath, getFrontMatterInfo, parseYaml } from 'obsidian';
+import { Book } from '../../domain/models/Book';
+import { FileSystemError, ValidationError } from '../../domain/models/Errors';
+import { BookService } from '../../application/services/BookService';
+import { CoverResolver } from '../../application/services/CoverResolver';
+import { BookInfo, DuplicateNoteAction, KyobobookPluginSettings } from '../../types';
+import { createNoteFromTemplate, createFileNameFromTemplate, createInlineReferenceFromTemplate } from '../../utils/template';
+import { Logger } from '../../shared/utils/Logger';
+import { TextUtils } from '../../shared/utils/TextUtils';
+import { UrlUtils } from '../../shared/utils/UrlUtils';
+import { toDataUrl } from '../../shared/utils/ImageUtils';
+import { CoverImageStore, resolveCoverImageMode } from './CoverImageStore';
+import { ensureVaultFolder, toVaultLinkPath } from './VaultPaths';
+import { mergeManagedRegions } from './ManagedRegions';
+
+/**
+ * 노트 frontmatter에 저장된 도서 식별 정보
+ */
+export interface BookNoteIdentity {
+  id?: string;    // 교보문고 상품 ID (S 접두사 제외)
+  isbn?: string;  // 정규화된 ISBN
+  url?: string;   // 교보문고 상세 페이지 URL
+}
+
+/**
+ * 노트 저장 결과
+ */
+export interface NoteWriteResult {
+  file: TFile;
+  action: 'created' | 'opened' | 'updated' | 'bodySkipped';
+}
+
+/**
+ * 노트 새로고침 결과
+ *
+ * bodySkipped: 노트 템플릿에 관리 영역이 없어 본문은 새로고침하지 않음 (frontmatter는 갱신했을 수 있음)
+ */
+export type NoteRefreshResult = 'updated' | 'unchanged' | 'bodySkipped';
+
+/**
+ * 중복 노트 처리 방식 선택 콜백 (null이면 취소)
+ */
+export type DuplicateResolver = (existing: TFile, book: Book) => Promise<DuplicateNoteAction | null>;
+
+/**
+ * frontmatter에서 도서 식별 정보 추출
+ */
+export function readBookIdentity(frontmatter: Record<string, unknown> | undefined): BookNoteIdentity {
+  if (!frontmatter) return {};
+
+  const url = typeof frontmatter.url === 'string' ? frontmatter.url : undefined;
+  const rawId = frontmatter.kyobobookId ?? (url ? UrlUtils.extractBookId(url) : undefined);
+  const rawIsbn = frontmatter.isbn;
+
+  return {
+    id: rawId !== undefined && rawId !== null && String(rawId).trim()
+      ? normalizeBookId(String(rawId))
+      : undefined,
+    isbn: rawIsbn !== undefined && rawIsbn !== null
+      ? TextUtils.normalizeISBN(String(rawIsbn))
+      : undefined,
+    url
+  };
+}
+
+function normalizeBookId(id: string): string {
+  return id.trim().replace(/^S/, '');
+}
+
+/**
+ * 새로고침 시 기존 값을 유지하는 frontmatter 키
+ */
+const PRESERVED_FRONTMATTER_KEYS = ['created'];
+
+/**
+ * 기존 값과 합치는 frontmatter 키 (사용자가 추가한 항목 보존)
+ */
+const MERGED_FRONTMATTER_KEYS = ['tags'];
+
+/**
+ * 도서 노트 작성기
+ *
+ * 역할:
+ * - 템플릿 렌더링 및 노트 경로 결정
+ * - 기존 노트(ISBN/교보문고 ID) 중복 감지
+ * - 노트 생성 및 기존 노트 갱신
+ */
+export class BookNoteWriter {
+  private readonly app: App;
+  private readonly bookService: BookService;
+  private readonly logger: Logger;
+  private readonly getSettings: () => KyobobookPluginSettings;
+  private readonly coverStore: CoverImageStore;
+  private readonly coverResolver: CoverResolver;
+
+  constructor(
+    app: App,
+    bookService: BookService,
+    logger: Logger,
+    getSettings: () => KyobobookPluginSettings,
+    coverResolver = new CoverResolver(bookService, logger, () => getSettings().enforceStaticCover)
+  ) {
+    this.app = app;
+    this.bookService = bookService;
+    this.logger = logger;
+    this.getSettings = getSettings;
+    this.coverStore = new CoverImageStore(app, bookService, logger, getSettings);
+    this.coverResolver = coverResolver;
+  }
+
+  /**
+   * 같은 도서(ISBN 또는 교보문고 ID)의 기존 노트 찾기
+   */
+  findExistingNote(book: Book): TFile | null {
+    const id = normalizeBookId(book.id);
+    const isbn = book.isbn ? TextUtils.normalizeISBN(book.isbn) : undefined;
+
+    for (const file of this.app.vault.getMarkdownFiles()) {
+      const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+      if (!frontmatter) continue;
+
+      const identity = readBookIdentity(frontmatter);
+      if ((id && identity.id === id) || (isbn && identity.isbn === isbn)) {
+        this.logger.debug('BookNoteWriter', `기존 노트 발견: ${file.path}`, { id, isbn });
+        return file;
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * 노트 저장 (기존 노트가 있으면 설정/선택에 따라 열기·갱신·사본 생성)
+   */
+  async saveBookNote(book: Book, resolveDuplicate?: DuplicateResolver): Promise<NoteWriteResult | null> {
+    const existing = this.findExistingNote(book);
+
+    if (existing) {
+      let action = this.getSettings().duplicateNoteAction ?? 'ask';
+      if (action === 'ask') {
+        const chosen = resolveDuplicate ? await resolveDuplicate(existing, book) : 'open';
+        if (!chosen) return null;
+        action = chosen;
+      }
+
+      switch (action) {
+        case 'open':
+          return { file: existing, action: 'opened' };
+        case 'update': {
+          const result = await this.updateNote(existing, book);
+          return { file: existing, action: result === 'bodySkipped' ? 'bodySkipped' : 'updated' };
+        }
+        case 'copy':
+          break;
+      }
+    }
+
+    return { file: await this.createNote(book), action: 'created' };
+  }
+
+  /**
+   * 새 노트 생성 (같은 경로가 있으면 " (n)" 접미사)
+   */
+  async createNote(book: Book): Promise<TFile> {
+    const noteContent = await this.renderNote(book);
+    const { folderPath, fileName } = this.getNoteLocation(book);
+
+    try {
+      // 폴더가 존재하지 않으면 생성
+      await ensureVaultFolder(this.app, folderPath);
+
+      return await this.app.vault.create(this.findAvailablePath(folderPath, fileName), noteContent);
+    } catch (error) {
+      throw new FileSystemError(
+        '노트를 생성할 수 없습니다',
+        folderPath,
+        'create',
+        { bookId: book.id },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * 임시 노트(오프라인 가져오기 대기 등)를 도서 노트로 바꿈
+   *
+   * 렌더링한 노트 뒤에 남길 본문을 붙이고, 파일명 템플릿에 맞는 경로로 옮깁니다 (노트 링크도 함께 갱신).
+   */
+  async convertToBookNote(file: TFile, book: Book, keptBody = ''): Promise<TFile> {
+    const rendered = await this.renderNote(book);
+    const content = keptBody.trim() ? `${rendered.trimEnd()}\n\n${keptBody.trim()}\n` : rendered;
+    const { folderPath, fileName } = this.getNoteLocation(book);
+
+    try {
+      await this.app.vault.modify(file, content);
+      await ensureVaultFolder(this.app, folderPath);
+      await this.app.fileManager.renameFile(file, this.findAvailablePath(folderPath, fileName));
+      return file;
+    } catch (error) {
+      throw new FileSystemError(
+        '노트를 도서 노트로 바꿀 수 없습니다',
+        file.path,
+        'write',
+        { bookId: book.id },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * 노트의 교보문고 ID/URL로 상세 정보를 다시 조회해 갱신
+   */
+  async refreshNote(file: TFile): Promise<NoteRefreshResult> {
+    const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+    const identity = readBookIdentity(frontmatter);
+
+    if (!identity.id) {
+      throw new ValidationError('교보문고 ID 또는 URL이 저장되지 않은 노트입니다', 'kyobobookId', file.path);
+    }
+
+    const detail = await this.bookService.getBookDetail(identity.id, 15000, {
+      tocApiFirst: this.getSettings().tocApiFirst,
+      bypassCache: true
+    });
+
+    return this.updateNote(file, detail.book);
+  }
+
+  /**
+   * 기존 노트 갱신
+   *
+   * 본문은 관리 영역만 새 내용으로 교체하고, frontmatter는 바뀐 키만 processFrontMatter로 기록합니다.
+   * 그 외 사용자 작성 내용(메모, 직접 추가한 필드와 주석)은 보존합니다.
+   */
+  async updateNote(file: TFile, book: Book): Promise<NoteRefreshResult> {
+    const rendered = await this.renderNote(book);
+    const renderedInfo = getFrontMatterInfo(rendered);
+    const renderedBody = rendered.slice(renderedInfo.contentStart);
+    let bodyChanged = false;
+    let bodySkipped = false;
+    let frontmatterChanged = false;
+
+    try {
+      let currentFrontmatter = '';
+      await this.app.vault.process(file, (current) => {
+        const currentInfo = getFrontMatterInfo(current);
+        const currentBody = current.slice(currentInfo.contentStart);
+        currentFrontmatter = currentInfo.exists ? currentInfo.frontmatter : '';
+
+        const mergedBody = mergeManagedRegions(currentBody, renderedBody);
+        if (mergedBody === null) {
+          bodySkipped = true;
+          return current;
+        }
+        bodyChanged = mergedBody !== currentBody;
+        return current.slice(0, currentInfo.contentStart) + mergedBody;
+      });
+
+      if (renderedInfo.exists) {
+        frontmatterChanged = await this.updateFrontmatter(file, currentFrontmatter, renderedInfo.frontmatter);
+      }
+    } catch (error) {
+      throw new FileSystemError(
+        '노트를 갱신할 수 없습니다',
+        file.path,
+        'write',
+        { bookId: book.id },
+        error instanceof Error ? error : undefined
+      );
+    }
+
+    if (bodySkipped) {
+      this.logger.warn('BookNoteWriter', `노트 템플릿에 관리 영역이 없어 본문은 새로고침하지 않음: ${file.path}`);
+      return 'bodySkipped';
+    }
+
+    const changed = bodyChanged || frontmatterChanged;
+    this.logger.info('BookNoteWriter', `노트 갱신 ${changed ? '완료' : '(변경 없음)'}: ${file.path}`);
+    return changed ? 'updated' : 'unchanged';
+  }
+
+  /**
+   * 노트 frontmatter에 값 기록 (overwrite가 아니면 비어 있는 키만 채움)
+   */
+  async setFrontmatterFields(file: TFile, fields: Record<string, unknown>, overwrite = true): Promise<void> {
+    const entries = Object.entries(fields).filter(([, value]) => value !== undefined && value !== '');
+    if (entries.length === 0) return;
+
+    try {
+      await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+        for (const [key, value] of entries) {
+          if (overwrite || frontmatter[key] === undefined || frontmatter[key] === null || frontmatter[key] === '') {
+            frontmatter[key] = value;
+          }
+        }
+      });
+    } catch (error) {
+      throw new FileSystemError(
+        'frontmatter를 저장할 수 없습니다',
+        file.path,
+        'write',
+        { keys: entries.map(([key]) => key) },
+        error instanceof Error ? error : undefined
+      );
+    }
+  }
+
+  /**
+   * 도서 노트의 파일명 (기존 노트가 있으면 그 파일명, 없으면 새로 만들 노트의 파일명)
+   */
+  getNoteName(book: Book): string {
+    const existing = this.findExistingNote(book);
+    if (existing) return existing.basename;
+    return createFileNameFromTemplate(this.toLegacyBook(book, ''), this.getSettings()).split('/').pop() || book.title;
+  }
+
+  /**
+   * 인라인 참조 렌더링 (링크는 도서 노트 파일명을 가리킴)
+   * (방금 만든 노트는 메타데이터 캐시에 아직 없을 수 있으므로 noteName으로 파일명을 직접 지정)
+   */
+  renderInlineReference(book: Book, noteName = this.getNoteName(book)): string {
+    return createInlineReferenceFromTemplate(this.toLegacyBook(book, book.coverImageUrl || ''), this.getSettings(), noteName);
+  }
+
+  /**
+   * 노트 본문 렌더링 (표지 URL 결정 포함)
+   */
+  async renderNote(book: Book): Promise<string> {
+    const coverForNote = await this.resolveCoverForNote(book);
+    return createNoteFromTemplate(this.toLegacyBook(book, coverForNote), this.getSettings());
+  }
+
+  // === Private Methods ===
+
+  /**
+   * 새 노트의 폴더와 파일명 (파일명 템플릿의 '/'는 저장 폴더 아래 하위 폴더로 취급)
+   */
+  private getNoteLocation(book: Book): { folderPath: string; fileName: string } {
+    const segments = createFileNameFromTemplate(this.toLegacyBook(book, ''), this.getSettings()).split('/');
+    const fileName = segments.pop() || 'untitled';
+    const folder = [this.getSettings().saveFolder, ...segments].filter(Boolean).join('/');
+    return { folderPath: folder ? normalizePath(folder) : '', fileName };
+  }
+
+  /**
+   * 같은 이름의 파일이 있으면 " (n)" 접미사를 붙인 경로
+   */
+  private findAvailablePath(folderPath: string, fileName: string): string {
+    const toPath = (name: string) => folderPath ? `${folderPath}/${name}.md` : `${name}.md`;
+    let finalPath = toPath(fileName);
+    let counter = 1;
+    while (this.app.vault.getAbstractFileByPath(finalPath)) {
+      finalPath = toPath(`${fileName} (${counter})`);
+      counter++;
+    }
+    return finalPath;
+  }
+
+  /**
+   * 새로 렌더링한 frontmatter 중 기존 값과 다른 키만 기록 (변경이 없으면 파일을 건드리지 않음)
+   */
+  private async updateFrontmatter(file: TFile, currentYaml: string, renderedYaml: string): Promise<boolean> {
+    let updates: Record<string, unknown>;
+    try {
+      updates = parseYaml(renderedYaml) || {};
+      if (Object.keys(diffFrontmatter(parseYaml(currentYaml) || {}, updates)).length === 0) return false;
+    } catch (error) {
+      this.logger.warn('BookNoteWriter', 'frontmatter 파싱 실패 - 기존 frontmatter 유지', { path: file.path, error });
+      return false;
+    }
+
+    let changed = false;
+    await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+      const changes = diffFrontmatter(frontmatter, updates);
+      changed = Object.keys(changes).length > 0;
+      Object.assign(frontmatter, changes);
+    });
+    return changed;
+  }
+
+  /**
+   * 노트에 넣을 표지 결정 (후보를 확인해 고른 뒤 data URL 내장 / 첨부 파일 저장 옵션 적용)
+   */
+  private async resolveCoverForNote(book: Book): Promise<string> {
+    const resolved = await this.coverResolver.resolve(book, 'note');
+    // 확인된 표지가 없으면 첫 후보 URL을 그대로 사용 (네트워크 오류 등)
+    const coverUrl = resolved?.url ?? this.coverResolver.getCandidates(book, 'note')[0]?.url ?? '';
+    if (!coverUrl) return '';
+
+    const mode = resolveCoverImageMode(this.getSettings());
+    if (mode === 'embed') {
+      if (resolved) return toDataUrl(resolved.image.data, resolved.image.contentType);
+      return await this.bookService.fetchImageAsDataUrl(coverUrl) ?? coverUrl;
+    }
+    if (mode === 'attachment') {
+      // 저장에 실패하면 원격 URL 유지
+      const file = await this.coverStore.saveCover(this.toLegacyBook(book, coverUrl), coverUrl, resolved?.image);
+      if (file) return toVaultLinkPath(file);
+    }
+    return coverUrl;
+  }
+
+  /**
+   * Book 객체를 레거시 BookInfo 형식으로 변환 (템플릿 호환성용)
+   */
+  private toLegacyBook(book: Book, coverImage: string): BookInfo {
+    return {
+      title: book.title,
+      authors: book.authors.join(', '),
+      publisher: book.publisher,
+      publishDate: book.publishDate || '',
+      isbn: book.isbn || '',
+      pages: book.pages?.toString() || '',
+      description: book.description || '',
+      toc: book.tableOfContents || '',
+      categories: book.categories ? [...book.categories] : [],
+      rating: book.rating?.toString() || '',
+      coverImage: coverImage || '',
+      url: book.detailPageUrl || '',
+      pid: book.id,
+      bid: book.id
+    };
+  }
+}
+
+/**
+ * 새로 렌더링한 frontmatter 값 중 기존 값과 다른 키와 새 값
+ */
+function diffFrontmatter(existing: Record<string, unknown>, updates: Record<string, unknown>): Record<string, unknown> {
+  const changes: Record<string, unknown> = {};
+
+  for (const [key, value] of Object.entries(updates)) {
+    if (PRESERVED_FRONTMATTER_KEYS.includes(key) && existing[key] !== undefined) continue;
+
+    let next = value;
+    if (MERGED_FRONTMATTER_KEYS.includes(key) && Array.isArray(existing[key]) && Array.isArray(value)) {
+      next = Array.from(new Set([...(existing[key] as unknown[]), ...value]));
+    }
+
+    if (JSON.stringify(next) !== JSON.stringify(existing[key])) {
+      changes[key] = next;
+    }
+  }
+
+  return changes;
+}
@@ -0,0 +1,203 @@
+// 저장 폴더 도서 노트 일괄 새로고침
+
+import { App, TFile, normalizePath } from 'obsidian';
+import { PluginError } from '../../domain/models/Errors';
+import { KyobobookPluginSettings } from '../../types';
+import { Logger } from '../../shared/utils/Logger';
+import { BookNoteWriter, readBookIdentity } from './BookNoteWriter';
+
+/**
+ * 일괄 새로고침 진행 상황
+ */
+export interface BulkRefreshProgress {
+  current: number;      // 처리 완료한 노트 수
+  total: number;
+  file?: TFile;         // 방금 처리한 노트
+  updated: number;
+  unchanged: number;
+  bodySkipped: number;
+  failed: number;
+}
+
+/**
+ * 새로고침 실패 항목
+ */
+export interface BulkRefreshFailure {
+  file: TFile;
+  reason: string;
+}
+
+/**
+ * 일괄 새로고침 결과
+ */
+export interface BulkRefreshReport {
+  startedAt: Date;
+  finishedAt: Date;
+  total: number;
+  cancelled: boolean;
+  updated: TFile[];
+  unchanged: TFile[];
+  bodySkipped: TFile[];   // 템플릿에 관리 영역이 없어 본문은 새로고침하지 않은 노트
+  failed: BulkRefreshFailure[];
+}
+
+/**
+ * 일괄 새로고침 옵션
+ */
+export interface BulkRefreshOptions {
+  onProgress?: (progress: BulkRefreshProgress) => void;
+  isCancelled?: () => boolean;
+}
+
+/**
+ * 도서 노트 일괄 새로고침기
+ *
+ * 요청 간격은 KyobobookClient의 요청 제한을 그대로 따르며,
+ * 노트 사이마다 이벤트 루프에 제어를 넘겨 UI가 멈추지 않도록 합니다.
+ */
+export class BulkNoteRefresher {
+  private readonly app: App;
+  private readonly noteWriter: BookNoteWriter;
+  private readonly logger: Logger;
+  private readonly getSettings: () => KyobobookPluginSettings;
+
+  constructor(
+    app: App,
+    noteWriter: BookNoteWriter,
+    logger: Logger,
+    getSettings: () => KyobobookPluginSettings
+  ) {
+    this.app = app;
+    this.noteWriter = noteWriter;
+    this.logger = logger;
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * 저장 폴더(하위 폴더 포함)에서 교보문고 ID가 있는 노트 수집
+   */
+  collectBookNotes(): TFile[] {
+    const folder = this.getSettings().saveFolder ? normalizePath(this.getSettings().saveFolder) : '';
+    const prefix = folder ? `${folder}/` : '';
+
+    return this.app.vault.getMarkdownFiles()
+      .filter(file => file.path.startsWith(prefix))
+      .filter(file => !!readBookIdentity(this.app.metadataCache.getFileCache(file)?.frontmatter).id)
+      .sort((a, b) => a.path.localeCompare(b.path));
+  }
+
+  /**
+   * 노트를 순서대로 새로고침 (개별 실패는 기록 후 계속 진행)
+   */
+  async refreshAll(files: TFile[], options: BulkRefreshOptions = {}): Promise<BulkRefreshReport> {
+    const report: BulkRefreshReport = {
+      startedAt: new Date(),
+      finishedAt: new Date(),
+      total: files.length,
+      cancelled: false,
+      updated: [],
+      unchanged: [],
+      bodySkipped: [],
+      failed: []
+    };
+
+    this.logger.info('BulkNoteRefresher', `일괄 새로고침 시작: ${files.length}개`);
+
+    for (let i = 0; i < files.length; i++) {
+      if (options.isCancelled?.()) {
+        report.cancelled = true;
+        break;
+      }
+
+      const file = files[i];
+      try {
+        const result = await this.noteWriter.refreshNote(file);
+        report[result].push(file);
+      } catch (error) {
+        const reason = error instanceof PluginError ? error.getUserMessage() : String(error);
+        report.failed.push({ file, reason });
+        this.logger.warn('BulkNoteRefresher', `새로고침 실패: ${file.path}`, { error });
+      }
+
+      options.onProgress?.({
+        current: i + 1,
+        total: files.length,
+        file,
+        updated: report.updated.length,
+        unchanged: report.unchanged.length,
+        bodySkipped: report.bodySkipped.length,
+        failed: report.failed.length
+      });
+
+      // UI 스레드 양보
+      await new Promise(resolve => window.setTimeout(resolve, 0));
+    }
+
+    report.finishedAt = new Date();
+    this.logger.info('BulkNoteRefresher', `일괄 새로고침 ${report.cancelled ? '취소' : '완료'}`, {
+      updated: report.updated.length,
+      unchanged: report.unchanged.length,
+      bodySkipped: report.bodySkipped.length,
+      failed: report.failed.length
+    });
+
+    return report;
+  }
+
+  /**
+   * 결과 보고서 노트 작성
+   */
+  async writeReport(report: BulkRefreshReport): Promise<TFile> {
+    const folder = this.getSettings().saveFolder ? normalizePath(this.getSettings().saveFolder) : '';
+    const baseName = `교보문고 새로고침 보고서 ${formatTimestamp(report.startedAt)}`;
+
+    let path = folder ? `${folder}/${baseName}.md` : `${baseName}.md`;
+    let counter = 1;
+    while (this.app.vault.getAbstractFileByPath(path)) {
+      const name = `${baseName} (${counter++})`;
+      path = folder ? `${folder}/${name}.md` : `${name}.md`;
+    }
+
+    return this.app.vault.create(path, this.renderReport(report));
+  }
+
+  // === Private Methods ===
+
+  private renderReport(report: BulkRefreshReport): string {
+    const processed = report.updated.length + report.unchanged.length + report.bodySkipped.length + report.failed.length;
+    const seconds = Math.round((report.finishedAt.getTime() - report.startedAt.getTime()) / 1000);
+    const link = (file: TFile) => `[[${file.path}|${file.basename}]]`;
+
+    const lines: string[] = [
+      `# 교보문고 새로고침 보고서`,
+      '',
+      `- 시작: ${report.startedAt.toLocaleString()}`,
+      `- 소요 시간: ${seconds}초`,
+      `- 처리: ${processed} / ${report.total}${report.cancelled ? ' (사용자 취소)' : ''}`,
+      `- 갱신 ${report.updated.length} · 변경 없음 ${report.unchanged.length} · 본문 제외 ${report.bodySkipped.length} · 실패 ${report.failed.length}`,
+      ''
+    ];
+
+    lines.push(`## 실패 (${report.failed.length})`, '');
+    lines.push(...report.failed.map(({ file, reason }) => `- ${link(file)} — ${reason}`), '');
+
+    if (report.bodySkipped.length > 0) {
+      lines.push(`## 본문 제외 (${report.bodySkipped.length})`, '');
+      lines.push('노트 템플릿에 `<!-- kyobobook:… -->` 관리 영역이 없어 frontmatter만 갱신하고 본문(목차, 책 소개 등)은 새로고침하지 않았습니다.', '');
+      lines.push(...report.bodySkipped.map(file => `- ${link(file)}`), '');
+    }
+
+    lines.push(`## 갱신 (${report.updated.length})`, '');
+    lines.push(...report.updated.map(file => `- ${link(file)}`), '');
+
+    lines.push(`## 변경 없음 (${report.unchanged.length})`, '');
+    lines.push(...report.unchanged.map(file => `- ${link(file)}`), '');
+
+    return lines.join('\n');
+  }
+}
+
+function formatTimestamp(date: Date): string {
+  const pad = (n: number) => String(n).padStart(2, '0');
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())} ${pad(date.getHours())}${pad(date.getMinutes())}`;
+}
@@ -0,0 +1,109 @@
+// 표지 이미지 첨부 파일 저장 (Obsidian Vault)
+
+import { App, TFile, TFolder, normalizePath } from 'obsidian';
+import { BookService, ImageBinary } from '../../application/services/BookService';
+import { BookInfo, CoverImageMode, KyobobookPluginSettings } from '../../types';
+import { createFileNameFromTemplate } from '../../utils/template';
+import { Logger } from '../../shared/utils/Logger';
+import { TextUtils } from '../../shared/utils/TextUtils';
+import { ensureVaultFolder } from './VaultPaths';
+
+const IMAGE_EXTENSIONS: Record<string, string> = {
+  'image/jpeg': 'jpg',
+  'image/jpg': 'jpg',
+  'image/png': 'png',
+  'image/gif': 'gif',
+  'image/webp': 'webp',
+  'image/avif': 'avif'
+};
+
+/**
+ * 표지 처리 방식 (설정하기 전의 embedCoverInNote 값도 반영)
+ */
+export function resolveCoverImageMode(settings: KyobobookPluginSettings): CoverImageMode {
+  return settings.coverImageMode ?? (settings.embedCoverInNote ? 'embed' : 'remote');
+}
+
+/**
+ * 표지 이미지를 vault의 첨부 폴더에 파일로 저장
+ *
+ * - 같은 ISBN의 표지 파일이 이미 있으면 다시 받지 않고 재사용
+ * - 파일명은 표지 파일명 템플릿으로 생성 (노트 파일명 템플릿과 같은 변수)
+ */
+export class CoverImageStore {
+  private readonly app: App;
+  private readonly bookService: BookService;
+  private readonly logger: Logger;
+  private readonly getSettings: () => KyobobookPluginSettings;
+
+  constructor(
+    app: App,
+    bookService: BookService,
+    logger: Logger,
+    getSettings: () => KyobobookPluginSettings
+  ) {
+    this.app = app;
+    this.bookService = bookService;
+    this.logger = logger;
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * 표지 파일 확보 (기존 파일 재사용 또는 다운로드 후 저장, 실패하면 null)
+   * 이미 내려받은 이미지가 있으면 다시 요청하지 않음
+   */
+  async saveCover(book: BookInfo, coverUrl: string, downloaded?: ImageBinary): Promise<TFile | null> {
+    const settings = this.getSettings();
+    const folder = normalizePath(settings.coverFolder || '도서/표지');
+    const baseName = createFileNameFromTemplate(book, settings, settings.coverFilenameTemplate || '{{isbn}}', '{{isbn}}');
+
+    const existing = this.findExistingCover(folder, baseName, book.isbn);
+    if (existing) {
+      this.logger.debug('CoverImageStore', `기존 표지 파일 재사용: ${existing.path}`);
+      return existing;
+    }
+
+    const image = downloaded ?? await this.bookService.fetchImage(coverUrl);
+    if (!image) return null;
+
+    const extension = IMAGE_EXTENSIONS[image.contentType] ?? 'jpg';
+    const path = normalizePath(`${folder}/${baseName}.${extension}`);
+    try {
+      await ensureVaultFolder(this.app, path.substring(0, path.lastIndexOf('/')));
+      const file = await this.app.vault.createBinary(path, image.data);
+      this.logger.info('CoverImageStore', `표지 파일 저장: ${path}`);
+      return file;
+    } catch (error) {
+      // 동시에 같은 표지를 저장한 경우 먼저 만들어진 파일 사용
+      const created = this.app.vault.getAbstractFileByPath(path);
+      if (created instanceof TFile) return created;
+
+      this.logger.warn('CoverImageStore', '표지 파일 저장 실패', { path, error });
+      return null;
+    }
+  }
+
+  /**
+   * 같은 파일명 또는 같은 ISBN이 들어간 표지 파일 찾기 (파일명 템플릿을 바꾼 뒤에도 재사용)
+   */
+  private findExistingCover(folder: string, baseName: string, isbn?: string): TFile | null {
+    const dir = this.app.vault.getAbstractFileByPath(folder);
+    if (!(dir instanceof TFolder)) return null;
+
+    const normalizedIsbn = isbn ? TextUtils.normalizeISBN(isbn) : undefined;
+    const targetDir = baseName.includes('/') ? `${folder}/${baseName.substring(0, baseName.lastIndexOf('/'))}` : folder;
+    const targetName = baseName.split('/').pop();
+    const candidates: TFile[] = [];
+    const collect = (current: TFolder) => {
+      for (const child of current.children) {
+        if (child instanceof TFolder) collect(child);
+        else if (child instanceof TFile && Object.values(IMAGE_EXTENSIONS).includes(child.extension)) candidates.push(child);
+      }
+    };
+    collect(dir);
+
+    return candidates.find(file => file.parent?.path === targetDir && file.basename === targetName)
+      ?? (normalizedIsbn ? candidates.find(file => file.basename.includes(normalizedIsbn)) : undefined)
+      ?? null;
+  }
+}
@@ -0,0 +1,102 @@
+// 노트 본문의 관리 영역 병합 (새로고침 시 플러그인이 다시 만드는 부분)
+
+/**
+ * 관리 영역 마커: <!-- kyobobook:name --> … <!-- /kyobobook:name -->
+ * 마커 사이의 내용은 새로고침 시 다시 생성되고, 마커 밖의 내용(메모 등)은 보존됩니다.
+ */
+const MANAGED_REGION_PATTERN = /<!-- kyobobook:([\w-]+) -->[\s\S]*?<!-- \/kyobobook:\1 -->/g;
+
+/**
+ * 관리 영역(마커 사이)만 새 내용으로 교체 (렌더링한 노트에 관리 영역이 없으면 null)
+ *
+ * 마커가 하나도 없는 노트(관리 영역 도입 전에 만든 노트)는 관리 영역을 추가해 옮깁니다.
+ */
+export function mergeManagedRegions(currentBody: string, renderedBody: string): string | null {
+  const regions = new Map<string, string>();
+  const pattern = new RegExp(MANAGED_REGION_PATTERN.source, 'g');
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(renderedBody)) !== null) {
+    regions.set(match[1], match[0]);
+  }
+
+  if (regions.size === 0) return null;
+
+  if (!new RegExp(MANAGED_REGION_PATTERN.source).test(currentBody)) {
+    return migrateUnmarkedBody(currentBody, Array.from(regions.values()));
+  }
+
+  return currentBody.replace(MANAGED_REGION_PATTERN, (block: string, name: string) =>
+    regions.get(name) ?? block
+  );
+}
+
+// === Helpers ===
+
+interface HeadingLine {
+  level: number;
+  text: string;
+  start: number;  // 제목 줄 시작 위치
+}
+
+/**
+ * 관리 영역 밖의 제목 줄 목록
+ */
+function findHeadings(text: string): HeadingLine[] {
+  const managed: Array<[number, number]> = [];
+  const regionPattern = new RegExp(MANAGED_REGION_PATTERN.source, 'g');
+  let region: RegExpExecArray | null;
+  while ((region = regionPattern.exec(text)) !== null) {
+    managed.push([region.index, region.index + region[0].length]);
+  }
+
+  const headings: HeadingLine[] = [];
+  const headingPattern = /^(#{1,6})[ \t]+(.+?)[ \t]*$/gm;
+  let heading: RegExpExecArray | null;
+  while ((heading = headingPattern.exec(text)) !== null) {
+    const start = heading.index;
+    if (managed.some(([from, to]) => start >= from && start < to)) continue;
+    headings.push({ level: heading[1].length, text: heading[2], start });
+  }
+  return headings;
+}
+
+/**
+ * 관리 영역 마커가 없는 본문에 관리 영역 추가
+ *
+ * 관리 영역과 같은 소제목(## 목차 등)으로 이어진 섹션이 있으면 그 섹션을 관리 영역으로 바꾸고,
+ * 없으면 관리 영역 밖의 첫 소제목(## 메모 등) 앞에, 소제목이 없으면 본문 끝에 넣습니다.
+ */
+function migrateUnmarkedBody(currentBody: string, regions: string[]): string {
+  let body = currentBody;
+  const unplaced: string[] = [];
+
+  for (const block of regions) {
+    const wanted = findHeadings(block.replace(/^<!-- kyobobook:[\w-]+ -->|<!-- \/kyobobook:[\w-]+ -->$/g, ''))
+      .map(heading => heading.text);
+    const headings = findHeadings(body).filter(heading => heading.level > 1);
+    const first = wanted.length > 0
+      ? headings.findIndex((_heading, i) => wanted.every((text, offset) => headings[i + offset]?.text === text))
+      : -1;
+
+    if (first === -1) {
+      unplaced.push(block);
+      continue;
+    }
+
+    // 마지막 소제목 섹션의 끝 (같거나 높은 수준의 다음 제목 앞)
+    const last = headings[first + wanted.length - 1];
+    const next = headings.slice(first + wanted.length).find(heading => heading.level <= last.level);
+    const start = headings[first].start;
+    const end = next ? next.start : body.length;
+    const trailing = /\s*$/.exec(body.slice(start, end))?.[0] || '\n';
+    body = body.slice(0, start) + block + trailing + body.slice(end);
+  }
+
+  if (unplaced.length === 0) return body;
+
+  const anchor = findHeadings(body).find(heading => heading.level > 1);
+  const inserted = unplaced.join('\n');
+  return anchor
+    ? `${body.slice(0, anchor.start)}${inserted}\n\n${body.slice(anchor.start)}`
+    : `${body.trimEnd()}\n\n${inserted}\n`;
+}
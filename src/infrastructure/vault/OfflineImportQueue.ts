@@ -0,0 +1,325 @@
+// 오프라인 가져오기 대기열 (임시 노트를 만들어 두고 연결이 복구되면 도서 정보로 채움)
+
+import { App, TFile, getFrontMatterInfo, normalizePath } from 'obsidian';
+import { Book } from '../../domain/models/Book';
+import { OfflineError, PluginError } from '../../domain/models/Errors';
+import { BookService } from '../../application/services/BookService';
+import { KyobobookPluginSettings } from '../../types';
+import { Logger } from '../../shared/utils/Logger';
+import { TextUtils } from '../../shared/utils/TextUtils';
+import { UrlUtils } from '../../shared/utils/UrlUtils';
+import { JsonFileStore } from '../storage/JsonFileStore';
+import { BookNoteWriter } from './BookNoteWriter';
+import { ensureVaultFolder } from './VaultPaths';
+
+/**
+ * 대기 중인 가져오기 요청
+ */
+export interface OfflineImportItem {
+  input: string;     // 검색어, ISBN 또는 교보문고 상세 URL
+  notePath: string;  // 임시 노트 경로
+  createdAt: string;
+  attempts: number;  // 연결된 상태에서 실패한 횟수
+  lastError?: string;
+}
+
+/**
+ * 대기열 저장 파일
+ */
+export interface OfflineImportQueueFile {
+  version: 1;
+  items: OfflineImportItem[];
+}
+
+/**
+ * 대기열 처리 결과
+ */
+export interface OfflineQueueRunSummary {
+  completed: number;  // 도서 노트로 채움 (이미 노트가 있으면 링크만 남김)
+  unresolved: number; // 도서를 확정하지 못해 후보 목록을 남김
+  remaining: number;  // 아직 대기 중
+}
+
+// 임시 노트 frontmatter 키 (값: 요청한 검색어/ISBN/URL)
+export const PENDING_FRONTMATTER_KEY = 'kyobobook-pending';
+
+const PLACEHOLDER_TITLE = '[!info] 교보문고 가져오기 대기 중';
+const MAX_ATTEMPTS = 3;
+const MAX_CANDIDATES = 5;
+
+/**
+ * 오프라인 가져오기 대기열
+ *
+ * 오프라인에서 요청한 가져오기는 검색어/ISBN을 적은 임시 노트로 먼저 만들고,
+ * 연결이 복구되면 순서대로 도서를 찾아 임시 노트를 도서 노트로 바꿉니다.
+ * 임시 노트에 직접 적은 내용은 도서 노트 본문 뒤에 그대로 남깁니다.
+ */
+export class OfflineImportQueue {
+  private readonly app: App;
+  private readonly bookService: BookService;
+  private readonly noteWriter: BookNoteWriter;
+  private readonly store: JsonFileStore<OfflineImportQueueFile>;
+  private readonly logger: Logger;
+  private readonly getSettings: () => KyobobookPluginSettings;
+  private readonly listeners = new Set<() => void>();
+  private items: OfflineImportItem[] = [];
+  private running?: Promise<OfflineQueueRunSummary>;
+
+  constructor(
+    app: App,
+    bookService: BookService,
+    noteWriter: BookNoteWriter,
+    store: JsonFileStore<OfflineImportQueueFile>,
+    logger: Logger,
+    getSettings: () => KyobobookPluginSettings
+  ) {
+    this.app = app;
+    this.bookService = bookService;
+    this.noteWriter = noteWriter;
+    this.store = store;
+    this.logger = logger;
+    this.getSettings = getSettings;
+  }
+
+  /**
+   * 저장된 대기열 불러오기
+   */
+  async load(): Promise<void> {
+    const saved = await this.store.load();
+    this.items = saved?.version === 1 && Array.isArray(saved.items) ? saved.items : [];
+    this.notify();
+  }
+
+  size(): number {
+    return this.items.length;
+  }
+
+  getItems(): readonly OfflineImportItem[] {
+    return this.items;
+  }
+
+  /**
+   * 대기열 변경 구독 (반환된 함수로 구독 해제)
+   */
+  onChange(listener: () => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+
+  /**
+   * 임시 노트를 만들고 대기열에 추가
+   */
+  async enqueue(input: string): Promise<TFile> {
+    const text = input.trim();
+    const reference = this.bookService.parseBookReference(text);
+    const label = reference ? (reference.type === 'isbn' ? `ISBN ${reference.isbn}` : reference.bookId) : text;
+
+    const folder = this.getSettings().saveFolder ? normalizePath(this.getSettings().saveFolder) : '';
+    await ensureVaultFolder(this.app, folder);
+    const baseName = `교보문고 가져오기 대기 - ${TextUtils.toSafeFileName(label, 60)}`;
+    let path = folder ? `${folder}/${baseName}.md` : `${baseName}.md`;
+    let counter = 1;
+    while (this.app.vault.getAbstractFileByPath(path)) {
+      const name = `${baseName} (${counter++})`;
+      path = folder ? `${folder}/${name}.md` : `${name}.md`;
+    }
+
+    const content = [
+      '---',
+      `${PENDING_FRONTMATTER_KEY}: ${JSON.stringify(text)}`,
+      '---',
+      '',
+      `> ${PLACEHOLDER_TITLE}`,
+      `> 오프라인 상태에서 요청한 도서입니다: ${label}`,
+      '> 교보문고에 다시 연결되면 이 노트를 도서 정보로 자동으로 채웁니다. 아래에 적은 내용은 그대로 남습니다.',
+      '',
+      ''
+    ].join('\n');
+    const file = await this.app.vault.create(path, content);
+
+    this.items.push({ input: text, notePath: file.path, createdAt: new Date().toISOString(), attempts: 0 });
+    await this.save();
+    this.logger.info('OfflineImportQueue', `가져오기 대기열에 추가: ${label}`, { path: file.path });
+    return file;
+  }
+
+  /**
+   * 임시 노트 이름이 바뀌면 대기 항목 경로도 갱신 (vault rename 이벤트에서 호출)
+   */
+  handleRename(oldPath: string, newPath: string): void {
+    const item = this.items.find(current => current.notePath === oldPath);
+    if (!item) return;
+
+    item.notePath = newPath;
+    void this.save().catch(error => this.logger.warn('OfflineImportQueue', '대기열 저장 실패', { error }));
+  }
+
+  /**
+   * 대기 중인 요청을 순서대로 처리 (이미 처리 중이면 그 결과를 공유)
+   */
+  process(): Promise<OfflineQueueRunSummary> {
+    if (!this.running) {
+      this.running = this.runQueue().finally(() => {
+        this.running = undefined;
+      });
+    }
+    return this.running;
+  }
+
+  // === Private Methods ===
+
+  private async runQueue(): Promise<OfflineQueueRunSummary> {
+    const summary: OfflineQueueRunSummary = { completed: 0, unresolved: 0, remaining: 0 };
+
+    for (const item of [...this.items]) {
+      const file = this.app.vault.getAbstractFileByPath(item.notePath);
+      if (!(file instanceof TFile)) {
+        // 사용자가 임시 노트를 지웠거나 옮겼으면 요청 취소로 간주
+        this.logger.info('OfflineImportQueue', `임시 노트가 없어 대기 항목 제거: ${item.notePath}`);
+        this.remove(item);
+        await this.save();
+        continue;
+      }
+
+      try {
+        const outcome = await this.processItem(item, file);
+        summary[outcome]++;
+        this.remove(item);
+      } catch (error) {
+        // 다시 오프라인이 되었으면 남은 요청은 다음 연결 복구 때 처리
+        if (error instanceof OfflineError) {
+          this.logger.warn('OfflineImportQueue', '오프라인으로 전환되어 대기열 처리 중단', { error });
+          break;
+        }
+
+        item.attempts++;
+        item.lastError = error instanceof PluginError ? error.getUserMessage() : String(error);
+        this.logger.warn('OfflineImportQueue', `대기 항목 처리 실패 (${item.attempts}/${MAX_ATTEMPTS}): ${item.input}`, { error });
+        if (item.attempts >= MAX_ATTEMPTS) {
+          await this.markUnresolved(file, item, [], item.lastError);
+          summary.unresolved++;
+          this.remove(item);
+        }
+      }
+      await this.save();
+    }
+
+    summary.remaining = this.items.length;
+    this.logger.info('OfflineImportQueue', '대기열 처리 결과', summary);
+    return summary;
+  }
+
+  /**
+   * 요청한 도서를 찾아 임시 노트를 채움
+   */
+  private async processItem(item: OfflineImportItem, file: TFile): Promise<'completed' | 'unresolved'> {
+    const { book, candidates } = await this.findBook(item.input);
+
+    if (!book) {
+      await this.markUnresolved(file, item, candidates, candidates.length > 0
+        ? `후보 ${candidates.length}개 - 직접 선택 필요`
+        : '검색 결과 없음');
+      return 'unresolved';
+    }
+
+    const existing = this.noteWriter.findExistingNote(book);
+    if (existing && existing.path !== file.path) {
+      await this.replacePlaceholder(file, [
+        '> [!info] 교보문고 가져오기 완료',
+        `> 이미 있는 도서 노트: ${this.app.fileManager.generateMarkdownLink(existing, file.path)}`
+      ]);
+      this.logger.info('OfflineImportQueue', `이미 노트가 있는 도서: ${book.title}`, { path: existing.path });
+      return 'completed';
+    }
+
+    const converted = await this.noteWriter.convertToBookNote(file, book, this.readKeptBody(await this.app.vault.read(file)));
+    this.logger.info('OfflineImportQueue', `임시 노트를 도서 노트로 변환: ${converted.path}`);
+    return 'completed';
+  }
+
+  /**
+   * 검색어/ISBN/URL로 도서 찾기 (BatchImporter의 줄 처리와 같은 규칙)
+   */
+  private async findBook(input: string): Promise<{ book?: Book; candidates: Book[] }> {
+    const settings = this.getSettings();
+    const searchOptions = { maxResults: settings.maxSearchResults, timeout: 15000 };
+    const reference = this.bookService.parseBookReference(input);
+
+    if (reference) {
+      const result = await this.bookService.lookupBookReference(reference, {
+        ...searchOptions,
+        tocApiFirst: settings.tocApiFirst
+      });
+      return { book: result.detail?.book, candidates: result.candidates };
+    }
+
+    const [title, author] = input.split(/\s+\/\s+|\t/).map(part => part.trim());
+    const match = await this.bookService.matchBookByTitle(title, author || undefined, searchOptions);
+    if (!match.book) return { candidates: match.candidates };
+
+    const detail = await this.bookService.getBookDetail(match.book.id, 15000, { tocApiFirst: settings.tocApiFirst });
+    return { book: detail.book, candidates: match.candidates };
+  }
+
+  /**
+   * 도서를 확정하지 못한 임시 노트에 후보 목록 남기기
+   */
+  private async markUnresolved(file: TFile, item: OfflineImportItem, candidates: Book[], reason: string): Promise<void> {
+    const lines = [
+      '> [!warning] 교보문고 가져오기: 도서를 확정하지 못했습니다',
+      `> 요청: ${item.input} — ${reason}`
+    ];
+    if (candidates.length > 0) {
+      lines.push('> 교보문고 URL/ISBN으로 도서 가져오기 명령에 아래 링크를 붙여넣으면 노트를 만들 수 있습니다.');
+      for (const candidate of candidates.slice(0, MAX_CANDIDATES)) {
+        const url = UrlUtils.buildDetailPageUrl(candidate.id);
+        lines.push(`> - [${candidate.title}](${url}) · ${candidate.authors.join(', ')} · ${candidate.publisher}`);
+      }
+    }
+    await this.replacePlaceholder(file, lines);
+  }
+
+  /**
+   * 임시 노트의 안내 문구를 바꾸고 대기 표시(frontmatter) 제거
+   */
+  private async replacePlaceholder(file: TFile, callout: string[]): Promise<void> {
+    await this.app.vault.process(file, current => {
+      const frontmatter = current.slice(0, getFrontMatterInfo(current).contentStart);
+      const kept = this.readKeptBody(current);
+      return `${frontmatter}${callout.join('\n')}\n\n${kept ? `${kept}\n` : ''}`;
+    });
+    await this.app.fileManager.processFrontMatter(file, (frontmatter: Record<string, unknown>) => {
+      delete frontmatter[PENDING_FRONTMATTER_KEY];
+    });
+  }
+
+  /**
+   * 임시 노트 본문에서 frontmatter와 대기 안내 문구를 뺀 나머지 (사용자가 적은 내용)
+   */
+  private readKeptBody(content: string): string {
+    const lines = content.slice(getFrontMatterInfo(content).contentStart).split('\n');
+    let start = 0;
+    while (start < lines.length && lines[start].trim() === '') start++;
+    if (lines[start]?.startsWith(`> ${PLACEHOLDER_TITLE}`)) {
+      while (start < lines.length && lines[start].startsWith('>')) start++;
+    }
+    return lines.slice(start).join('\n').trim();
+  }
+
+  private remove(item: OfflineImportItem): void {
+    this.items = this.items.filter(current => current !== item);
+  }
+
+  private async save(): Promise<void> {
+    await this.store.save({ version: 1, items: this.items });
+    this.notify();
+  }
+
+  private notify(): void {
+    for (const listener of this.listeners) {
+      listener();
+    }
+  }
+}
@@ -0,0 +1,25 @@
+// Vault 경로 유틸리티
+
+import { App, TFile } from 'obsidian';
+
+/**
+ * 폴더 경로를 단계별로 생성 (중첩 폴더 지원)
+ */
+export async function ensureVaultFolder(app: App, folderPath: string): Promise<void> {
+  if (!folderPath) return;
+
+  let current = '';
+  for (const part of folderPath.split('/')) {
+    current = current ? `${current}/${part}` : part;
+    if (!app.vault.getAbstractFileByPath(current)) {
+      await app.vault.createFolder(current);
+    }
+  }
+}
+
+/**
+ * 노트 본문에 넣을 vault 상대 경로 (마크다운 링크가 깨지지 않도록 공백만 인코딩)
+ */
+export function toVaultLinkPath(file: TFile): string {
+  return file.path.replace(/ /g, '%20');
+}
@@ -1,13 +1,31 @@
-import { Plugin } from 'obsidian';
+import { Editor, MarkdownView, Notice, Plugin, TFile } from 'obsidian';
 import { KyobobookPluginSettings } from './types';
 import { DEFAULT_SETTINGS } from './settings';
 import { KyobobookSearchModal } from './ui/search-modal';
 import { KyobobookSettingTab } from './ui/settings-tab';
-import { BookService } from './application/services/BookService';
+import { BulkRefreshModal } from './ui/bulk-refresh-modal';
+import { BookReferenceModal } from './ui/book-reference-modal';
+import { BatchImportModal } from './ui/batch-import-modal';
+import { CacheStatusModal } from './ui/cache-status-modal';
+import { BookReferenceFormat, insertBookReference } from './ui/note-actions';
+import { BookService, SearchResult } from './application/services/BookService';
+import { CoverResolver } from './application/services/CoverResolver';
+import { ConnectionMonitor } from './application/services/ConnectionMonitor';
 import { KyobobookClientFactory } from './infrastructure/http/KyobobookClient';
-import { BookMemoryCache } from './infrastructure/cache/MemoryCache';
+import { ObsidianTransport } from './infrastructure/http/ObsidianTransport';
+import { BookMemoryCache, MemoryCache } from './infrastructure/cache/MemoryCache';
+import { CachePersistence } from './infrastructure/cache/CachePersistence';
+import { CacheManager, toCacheArgs } from './infrastructure/cache/CacheManager';
 import { Logger, createDevelopmentLogger, createProductionLogger } from './shared/utils/Logger';
 import { ObsidianFileOutput } from './infrastructure/logging/ObsidianFileOutput';
+import { BookNoteWriter, readBookIdentity } from './infrastructure/vault/BookNoteWriter';
+import { BulkNoteRefresher } from './infrastructure/vault/BulkNoteRefresher';
+import { BatchImporter, BatchImportJob } from './infrastructure/vault/BatchImporter';
+import { OfflineImportQueue, OfflineImportQueueFile } from './infrastructure/vault/OfflineImportQueue';
+import { JsonFileStore } from './infrastructure/storage/JsonFileStore';
+import { PluginError } from './domain/models/Errors';
+import { Book, BookFactory } from './domain/models/Book';
+import { SingleFlightStats } from './shared/utils/SingleFlight';
 import { DebugLogger } from './utils/debug';
 
 export default class KyobobookPlugin extends Plugin {
@@ -17,7 +35,18 @@ export default class KyobobookPlugin extends Plugin {
   private bookService!: BookService;
   private httpClient!: ReturnType<typeof KyobobookClientFactory.createDevelopmentClient>;
   private cache!: BookMemoryCache;
+  private searchCache!: MemoryCache<SearchResult>;
+  private cachePersistence?: CachePersistence;
+  private caches!: CacheManager;
   private logger!: Logger;
+  private coverResolver!: CoverResolver;
+  private noteWriter!: BookNoteWriter;
+  private bulkRefresher!: BulkNoteRefresher;
+  private batchImporter!: BatchImporter;
+  private connection!: ConnectionMonitor;
+  private offlineQueue!: OfflineImportQueue;
+  private statusBarEl?: HTMLElement;
+  private bulkRefreshModal?: BulkRefreshModal; // 진행 중인 일괄 새로고침 (하나만)
 
   async onload() {
     console.log('교보문고 플러그인 로딩 시작');
@@ -51,8 +80,13 @@ export default class KyobobookPlugin extends Plugin {
   onunload() {
     this.logger?.info('KyobobookPlugin', '플러그인 언로딩 시작');
 
-    // 캐시 정리
+    this.connection?.dispose();
+    this.bulkRefreshModal?.cancel();
+
+    // 캐시 정리 (영구 캐시는 남은 변경을 디스크에 저장한 뒤 메모리만 비움)
+    void this.cachePersistence?.close();
     this.cache?.clear();
+    this.searchCache?.clear();
 
     // 로거 정리
     this.logger?.clearOutputs();
@@ -77,6 +111,8 @@ export default class KyobobookPlugin extends Plugin {
       this.logger.setLogLevel(logLevel);
       this.logger.info('KyobobookPlugin', `로그 레벨 업데이트: ${this.settings.debugMode ? 'DEBUG' : 'INFO'}`);
     }
+
+    this.applyDetailCachePolicy();
   }
 
   /**
@@ -102,33 +138,97 @@ export default class KyobobookPlugin extends Plugin {
       this.logger.warn('KyobobookPlugin', '파일 로깅 초기화 실패', { error: e });
     }
 
-    // HTTP 클라이언트 초기화
+    // HTTP 클라이언트 초기화 (전송은 Obsidian requestUrl)
+    const transport = new ObsidianTransport();
     this.httpClient = this.settings.debugMode
-      ? KyobobookClientFactory.createDevelopmentClient(this.logger)
-      : KyobobookClientFactory.createProductionClient(this.logger);
-
-    // 캐시 초기화
-    this.cache = new BookMemoryCache(
-      this.settings.maxCacheSize || 200,
-      (this.settings.cacheTimeoutMinutes || 60) * 60 * 1000,
-      this.logger
-    );
+      ? KyobobookClientFactory.createDevelopmentClient(this.logger, transport)
+      : KyobobookClientFactory.createProductionClient(this.logger, transport);
+
+    // 캐시 초기화: 상세 정보/검색 결과 페이지를 네임스페이스별 예산으로 분리 (상세 정보는 더 오래 유지)
+    this.caches = new CacheManager();
+    this.cache = this.caches.register('detail', new BookMemoryCache(...toCacheArgs({
+      maxSize: this.settings.maxCacheSize || 200,
+      ttlMinutes: this.settings.detailCacheTimeoutMinutes || 7 * 24 * 60
+    }), this.logger));
+    this.searchCache = this.caches.register('search', new MemoryCache<SearchResult>(...toCacheArgs({
+      maxSize: this.settings.maxSearchCacheSize || 50,
+      ttlMinutes: this.settings.cacheTimeoutMinutes || 60
+    }), this.logger));
+    this.initializeCachePersistence();
+
+    // 연결 상태 감시 (오프라인이면 캐시 검색 + 가져오기 대기열)
+    this.connection = new ConnectionMonitor(() => this.httpClient.healthCheck(), this.logger);
 
     // BookService 초기화
     this.bookService = new BookService(
       this.httpClient,
       this.logger,
-      this.cache
+      this.cache,
+      this.searchCache,
+      this.connection
+    );
+    this.applyDetailCachePolicy();
+    this.register(this.bookService.onBookUpdated(book => {
+      void this.refreshOpenNotes(book);
+    }));
+
+    // 표지 결정 서비스 (검색 모달과 노트 작성기가 함께 사용)
+    this.coverResolver = new CoverResolver(this.bookService, this.logger, () => this.settings.enforceStaticCover);
+
+    // 노트 작성기 초기화
+    this.noteWriter = new BookNoteWriter(
+      this.app,
+      this.bookService,
+      this.logger,
+      () => this.settings,
+      this.coverResolver
+    );
+    this.bulkRefresher = new BulkNoteRefresher(
+      this.app,
+      this.noteWriter,
+      this.logger,
+      () => this.settings
+    );
+    this.offlineQueue = new OfflineImportQueue(
+      this.app,
+      this.bookService,
+      this.noteWriter,
+      new JsonFileStore<OfflineImportQueueFile>(this.app.vault.adapter, this.getPluginFilePath('offline-queue.json'), this.logger),
+      this.logger,
+      () => this.settings
+    );
+    await this.offlineQueue.load();
+    this.registerEvent(this.app.vault.on('rename', (file, oldPath) => {
+      this.offlineQueue.handleRename(oldPath, file.path);
+    }));
+
+    // 일괄 가져오기 (오프라인이라 찾지 못한 줄은 위 대기열로)
+    this.batchImporter = new BatchImporter(
+      this.app,
+      this.bookService,
+      this.noteWriter,
+      new JsonFileStore<BatchImportJob>(this.app.vault.adapter, this.getPluginFilePath('batch-import.json'), this.logger),
+      this.logger,
+      () => this.settings,
+      this.offlineQueue
     );
 
-    // 연결 테스트
-    const isHealthy = await this.httpClient.healthCheck();
+    // 연결 테스트 (실패하면 오프라인 모드로 시작하고 주기적으로 다시 확인)
+    const isHealthy = await this.connection.check();
     if (isHealthy) {
       this.logger.info('KyobobookPlugin', '교보문고 서버 연결 확인 완료');
     } else {
       this.logger.warn('KyobobookPlugin', '교보문고 서버 연결 실패 - 오프라인 모드로 동작');
     }
 
+    // 연결이 복구되면 오프라인에서 요청한 가져오기 처리
+    this.register(this.connection.onChange(state => {
+      this.updateStatusBar();
+      if (state === 'online') void this.processOfflineQueue();
+    }));
+    this.register(this.offlineQueue.onChange(() => this.updateStatusBar()));
+    if (isHealthy) void this.processOfflineQueue();
+
     this.logger.info('KyobobookPlugin', '서비스 레이어 초기화 완료');
   }
 
@@ -136,6 +236,14 @@ export default class KyobobookPlugin extends Plugin {
    * UI 컴포넌트 등록
    */
   private registerUIComponents(): void {
+    // 상태 표시줄: 연결 상태와 가져오기 대기열 길이
+    this.statusBarEl = this.addStatusBarItem();
+    this.statusBarEl.addClass('kyobobook-status');
+    this.statusBarEl.addEventListener('click', () => {
+      void this.onStatusBarClick();
+    });
+    this.updateStatusBar();
+
     // 사이드 패널에 도서 검색 버튼 추가
     this.addRibbonIcon('book-open', '교보문고 도서 검색', () => {
       this.openSearchModal();
@@ -150,6 +258,106 @@ export default class KyobobookPlugin extends Plugin {
       }
     });
 
+    // 현재 노트에 도서 삽입 (삽입 모드 검색)
+    this.addCommand({
+      id: 'insert-kyobobook-reference',
+      name: '현재 노트에 도서 삽입',
+      editorCallback: (editor: Editor) => {
+        new KyobobookSearchModal(this.app, this, this.bookService, this.logger, {
+          purpose: '선택한 도서를 커서 위치에 삽입',
+          chooseLabel: '삽입',
+          onChoose: book => insertBookReference(this, this.bookService, editor, book)
+        }).open();
+      }
+    });
+
+    // 선택한 텍스트로 검색해 도서 링크/인용으로 바꾸기
+    const addReplaceSelectionCommand = (id: string, name: string, format: BookReferenceFormat) => {
+      this.addCommand({
+        id,
+        name,
+        editorCheckCallback: (checking: boolean, editor: Editor) => {
+          const query = editor.getSelection().replace(/\s+/g, ' ').trim();
+          if (query.length < 2) return false;
+
+          if (!checking) {
+            const range = { from: editor.getCursor('from'), to: editor.getCursor('to') };
+            new KyobobookSearchModal(this.app, this, this.bookService, this.logger, {
+              purpose: '선택한 텍스트를 고른 도서로 바꾸기',
+              chooseLabel: '바꾸기',
+              onChoose: book => insertBookReference(this, this.bookService, editor, book, format, range)
+            }).openWithQuery(query);
+          }
+          return true;
+        }
+      });
+    };
+    addReplaceSelectionCommand('replace-selection-with-book-link', '선택한 텍스트를 도서 링크로 바꾸기', 'link');
+    addReplaceSelectionCommand('replace-selection-with-book-citation', '선택한 텍스트를 도서 인용으로 바꾸기', 'template');
+
+    // 교보문고 URL/ISBN으로 바로 가져오기 커맨드
+    this.addCommand({
+      id: 'import-kyobobook-reference',
+      name: '교보문고 URL/ISBN으로 도서 가져오기',
+      callback: () => {
+        new BookReferenceModal(this.app, this, this.bookService, this.logger).open();
+      }
+    });
+
+    // 도서 목록 일괄 가져오기 커맨드
+    this.addCommand({
+      id: 'batch-import-kyobobook',
+      name: '도서 일괄 가져오기',
+      callback: () => {
+        new BatchImportModal(this.app, this.batchImporter, this.logger).open();
+      }
+    });
+
+    // 독서 기록 CSV 가져오기 커맨드
+    this.addCommand({
+      id: 'import-reading-history-csv',
+      name: '독서 기록 CSV 가져오기 (Goodreads/왓챠피디아/Yes24)',
+      callback: () => {
+        new BatchImportModal(this.app, this.batchImporter, this.logger, true).open();
+      }
+    });
+
+    // 현재 노트의 교보문고 정보 새로고침 커맨드
+    this.addCommand({
+      id: 'refresh-kyobobook-note',
+      name: '교보문고 정보 새로고침',
+      checkCallback: (checking: boolean) => {
+        const file = this.app.workspace.getActiveFile();
+        if (!file || file.extension !== 'md') return false;
+
+        const frontmatter = this.app.metadataCache.getFileCache(file)?.frontmatter;
+        if (!readBookIdentity(frontmatter).id) return false;
+
+        if (!checking) {
+          void this.refreshBookNote(file);
+        }
+        return true;
+      }
+    });
+
+    // 저장 폴더의 모든 도서 노트 새로고침 커맨드
+    this.addCommand({
+      id: 'refresh-all-kyobobook-notes',
+      name: '저장 폴더의 도서 노트 모두 새로고침',
+      callback: () => {
+        // 이미 진행 중이면 새로 시작하지 않고 진행 모달을 다시 열기 (취소 가능)
+        if (this.bulkRefreshModal?.isRunning()) {
+          this.bulkRefreshModal.open();
+          return;
+        }
+        const modal = new BulkRefreshModal(this.app, this.bulkRefresher, this.logger, () => {
+          if (this.bulkRefreshModal === modal) this.bulkRefreshModal = undefined;
+        });
+        this.bulkRefreshModal = modal;
+        modal.open();
+      }
+    });
+
     // 로그 파일 열기 커맨드
     this.addCommand({
       id: 'open-kyobobook-log',
@@ -175,16 +383,14 @@ export default class KyobobookPlugin extends Plugin {
       }
     });
 
-    // 캐시 상태 확인 커맨드 (디버그 모드에서만)
-    if (this.settings.debugMode) {
-      this.addCommand({
-        id: 'kyobobook-cache-status',
-        name: '캐시 상태 확인',
-        callback: () => {
-          this.showCacheStatus();
-        }
-      });
-    }
+    // 캐시 상태 확인 및 관리
+    this.addCommand({
+      id: 'kyobobook-cache-status',
+      name: '캐시 상태 및 관리',
+      callback: () => {
+        new CacheStatusModal(this.app, this).open();
+      }
+    });
   }
 
   /**
@@ -206,21 +412,170 @@ export default class KyobobookPlugin extends Plugin {
   }
 
   /**
-   * 캐시 상태 표시 (디버그용)
+   * 도서 노트의 교보문고 정보 새로고침 (사용자 작성 내용 보존)
+   */
+  private async refreshBookNote(file: TFile): Promise<void> {
+    new Notice(`"${file.basename}" 교보문고 정보를 새로고침하는 중...`);
+
+    try {
+      const result = await this.noteWriter.refreshNote(file);
+      new Notice(result === 'updated'
+        ? `"${file.basename}" 정보를 새로고침했습니다.`
+        : result === 'bodySkipped'
+          ? `"${file.basename}" 본문은 새로고침하지 않았습니다. 노트 템플릿에 <!-- kyobobook:… --> 관리 영역이 없어 frontmatter만 갱신합니다.`
+          : `"${file.basename}" 변경된 정보가 없습니다.`);
+    } catch (error) {
+      const message = error instanceof PluginError ? error.getUserMessage() : String(error);
+      new Notice(`새로고침 실패: ${message}`);
+      this.logger.error('KyobobookPlugin', '노트 새로고침 실패', { path: file.path, error });
+    }
+  }
+
+  /**
+   * 백그라운드 갱신으로 바뀐 도서 정보를 열려 있는 해당 도서 노트에 반영
+   */
+  private async refreshOpenNotes(book: Book): Promise<void> {
+    const file = this.noteWriter.findExistingNote(book);
+    if (!file) return;
+
+    const isOpen = this.app.workspace.getLeavesOfType('markdown')
+      .some(leaf => leaf.view instanceof MarkdownView && leaf.view.file?.path === file.path);
+    if (!isOpen) return;
+
+    try {
+      if (await this.noteWriter.updateNote(file, book) === 'updated') {
+        new Notice(`"${file.basename}" 교보문고 정보가 갱신되었습니다.`);
+      }
+    } catch (error) {
+      this.logger.warn('KyobobookPlugin', '열린 노트 갱신 실패', { path: file.path, error });
+    }
+  }
+
+  /**
+   * 오프라인에서 요청한 가져오기를 임시 노트로 만들어 대기열에 추가 (notify면 노트를 열고 알림)
+   */
+  async queueOfflineImport(input: string, notify = true): Promise<void> {
+    try {
+      const file = await this.offlineQueue.enqueue(input);
+      if (!notify) return;
+      await this.app.workspace.getLeaf().openFile(file);
+      new Notice(`오프라인 상태라 가져오기 대기열에 추가했습니다. 연결되면 "${file.basename}" 노트를 자동으로 채웁니다.`, 6000);
+    } catch (error) {
+      const message = error instanceof PluginError ? error.getUserMessage() : String(error);
+      new Notice(`가져오기 대기열 추가 실패: ${message}`);
+      this.logger.error('KyobobookPlugin', '가져오기 대기열 추가 실패', { input, error });
+    }
+  }
+
+  isOffline(): boolean {
+    return this.connection.isOffline();
+  }
+
+  /**
+   * 가져오기 대기열 처리 후 결과 알림
    */
-  private showCacheStatus(): void {
-    const stats = this.cache.getStats();
-    const serviceStats = this.bookService.getCacheStats();
+  private async processOfflineQueue(): Promise<void> {
+    if (this.offlineQueue.size() === 0) return;
+
+    try {
+      const summary = await this.offlineQueue.process();
+      if (summary.completed + summary.unresolved === 0) return;
 
-    console.log('=== 캐시 상태 ===');
-    console.log('크기:', stats.size, '/', stats.maxSize);
-    console.log('히트율:', (stats.hitRate * 100).toFixed(1) + '%');
-    console.log('총 히트:', stats.hitCount);
-    console.log('총 미스:', stats.missCount);
-    console.log('제거 횟수:', stats.evictionCount);
-    console.log('서비스 통계:', serviceStats);
+      const parts = [`완료 ${summary.completed}`];
+      if (summary.unresolved > 0) parts.push(`확인 필요 ${summary.unresolved}`);
+      if (summary.remaining > 0) parts.push(`남음 ${summary.remaining}`);
+      new Notice(`가져오기 대기열 처리: ${parts.join(', ')}`, summary.unresolved > 0 ? 8000 : 4000);
+    } catch (error) {
+      this.logger.warn('KyobobookPlugin', '가져오기 대기열 처리 실패', { error });
+    }
+  }
 
-    this.logger.info('KyobobookPlugin', '캐시 상태 조회', { stats, serviceStats });
+  private updateStatusBar(): void {
+    const el = this.statusBarEl;
+    if (!el) return;
+
+    const offline = this.connection.isOffline();
+    const queued = this.offlineQueue.size();
+    el.setText(`교보문고 ${offline ? '오프라인' : '온라인'}${queued > 0 ? ` · 대기 ${queued}` : ''}`);
+    el.toggleClass('is-offline', offline);
+    el.setAttr('aria-label', offline
+      ? '교보문고에 연결할 수 없습니다. 클릭하면 연결을 다시 확인합니다.'
+      : queued > 0 ? '클릭하면 가져오기 대기열을 처리합니다.' : '교보문고에 연결되어 있습니다.');
+  }
+
+  /**
+   * 상태 표시줄 클릭: 오프라인이면 연결 재확인, 온라인이면 남은 대기열 처리
+   */
+  private async onStatusBarClick(): Promise<void> {
+    if (!this.connection.isOffline()) {
+      await this.processOfflineQueue();
+      return;
+    }
+
+    new Notice('교보문고 연결을 확인하는 중...');
+    const healthy = await this.connection.check();
+    if (!healthy) new Notice('아직 교보문고에 연결할 수 없습니다.');
+  }
+
+  /**
+   * 설정의 상세 정보 캐시 정책을 서비스에 적용
+   */
+  private applyDetailCachePolicy(): void {
+    this.bookService?.setDetailCachePolicy({
+      staleWhileRevalidate: this.settings.staleWhileRevalidate ?? true,
+      freshForMs: (this.settings.detailFreshMinutes || 24 * 60) * 60 * 1000
+    });
+  }
+
+  /**
+   * 플러그인 폴더 안의 파일 경로 (vault 상대 경로)
+   */
+  private getPluginFilePath(fileName: string): string {
+    const dir = this.manifest.dir || '.obsidian/plugins/kyobobook-plugin';
+    return `${dir}/${fileName}`;
+  }
+
+  /**
+   * 영구 캐시 연결 (파일 읽기는 기다리지 않고 백그라운드에서 복원)
+   */
+  private initializeCachePersistence(): void {
+    if (!(this.settings.persistentCache ?? true)) return;
+
+    const maxBytes = (this.settings.maxDiskCacheMB || 20) * 1024 * 1024;
+    this.cachePersistence = new CachePersistence(this.app.vault.adapter, this.getPluginFilePath('cache'), this.logger);
+    Promise.all([
+      this.cachePersistence.attach('detail', this.cache, maxBytes * 0.7, BookFactory.revive),
+      this.cachePersistence.attach('search', this.searchCache, maxBytes * 0.3, result => ({
+        ...result,
+        books: result.books.map(BookFactory.revive)
+      }))
+    ]).catch(error => this.logger.warn('KyobobookPlugin', '영구 캐시 복원 실패', { error }));
+  }
+
+  /**
+   * 메모리/디스크 캐시 모두 비우기
+   */
+  async clearAllCaches(): Promise<void> {
+    this.caches.clear();
+    await this.cachePersistence?.clear();
+  }
+
+  getCacheManager(): CacheManager {
+    return this.caches;
+  }
+
+  getCachePersistence(): CachePersistence | undefined {
+    return this.cachePersistence;
+  }
+
+  /**
+   * 동시 요청 병합 통계 (상세 정보 단위 / URL 단위)
+   */
+  getRequestStats(): { detail: SingleFlightStats; http: SingleFlightStats } {
+    return {
+      detail: this.bookService.getRequestStats(),
+      http: this.httpClient.getRequestStats()
+    };
   }
 
   /**
@@ -237,4 +592,12 @@ export default class KyobobookPlugin extends Plugin {
   getCache(): BookMemoryCache {
     return this.cache;
   }
+
+  getCoverResolver(): CoverResolver {
+    return this.coverResolver;
+  }
+
+  getNoteWriter(): BookNoteWriter {
+    return this.noteWriter;
+  }
 }
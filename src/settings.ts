@@ -4,6 +4,7 @@ export const DEFAULT_SETTINGS: KyobobookPluginSettings = {
   saveFolder: '도서',
   noteTemplate: `---
 title: "{{title}}"
+kyobobookId: "{{id}}"
 authors: "{{authors}}"
 publisher: "{{publisher}}"
 publishDate: "{{publishDate}}"
@@ -17,6 +18,7 @@ created: "{{created}}"
 
 # {{title}}
 
+<!-- kyobobook:info -->
 ## 표지
 ![{{title}}]({{coverImage}})
 
@@ -24,19 +26,32 @@ created: "{{created}}"
 - 저자: {{authors}}
 - 출판사: {{publisher}}
 - 출판일: {{publishDate}}
+{{#if isbn}}
 - ISBN: {{isbn}}
+{{/if}}
+<!-- /kyobobook:info -->
+<!-- kyobobook:description -->
+{{#if description}}
 
 ## 책 소개
 {{description}}
+{{/if}}
+<!-- /kyobobook:description -->
+<!-- kyobobook:toc -->
+{{#if toc}}
 
 ## 목차
 {{toc}}
+{{/if}}
+<!-- /kyobobook:toc -->
 
 ## 메모
 
 
+<!-- kyobobook:link -->
 ## 링크
-[교보문고 바로가기]({{url}})`,
+[교보문고 바로가기]({{url}})
+<!-- /kyobobook:link -->`,
   filenameTemplate: '{{title}}',
   maxSearchResults: 20,
   autoCreateTags: true,
@@ -45,8 +60,23 @@ created: "{{created}}"
   enforceStaticCover: false,
   prefetchCount: 3,
   embedCoverInNote: false,
+  coverFolder: '도서/표지',
+  coverFilenameTemplate: '{{isbn}}',
   tocApiFirst: false,
   enableFileLogging: true,
   logFilePath: '.obsidian/plugins/kyobobook-plugin/kyobobook.log',
-  disablePrefetch: false
+  disablePrefetch: false,
+  duplicateNoteAction: 'ask',
+  liveSearch: false,
+  liveSearchDelay: 500,
+  inlineTemplate: '[[{{noteName}}|{{title}}]] — {{authors}}, {{publisher}} ({{publishDate | date:"YYYY"}})',
+  createNoteOnInsert: true,
+  cacheTimeoutMinutes: 60,
+  detailCacheTimeoutMinutes: 7 * 24 * 60,
+  maxCacheSize: 200,
+  maxSearchCacheSize: 50,
+  persistentCache: true,
+  maxDiskCacheMB: 20,
+  staleWhileRevalidate: true,
+  detailFreshMinutes: 24 * 60
 };
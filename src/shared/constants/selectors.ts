@@ -187,6 +187,19 @@ export const CSS_CLASSES = {
   SEARCH_CONTAINER: 'kyobobook-search-container',
   SEARCH_BUTTON: 'kyobobook-search-button',
   SUGGESTION_ITEM: 'kyobobook-suggestion-item',
+  LOAD_MORE: 'kyobobook-load-more',
+  SEARCH_FILTERS: 'kyobobook-search-filters',
+  SEARCH_BODY: 'kyobobook-search-body',
+  PREVIEW_PANE: 'kyobobook-preview-pane',
+  PREVIEW_COVER: 'kyobobook-preview-cover',
+  PREVIEW_META: 'kyobobook-preview-meta',
+  PREVIEW_DESCRIPTION: 'kyobobook-preview-description',
+  PREVIEW_TOC: 'kyobobook-preview-toc',
+  PREVIEW_ACTIONS: 'kyobobook-preview-actions',
+  SELECTION_BAR: 'kyobobook-selection-bar',
+  OFFLINE_BAR: 'kyobobook-offline-bar',
+  SELECT_CHECKBOX: 'kyobobook-select-checkbox',
+  SELECTED: 'is-checked',
 
   // 도서 정보 표시 클래스
   BOOK_COVER: 'book-cover',
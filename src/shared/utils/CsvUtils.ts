@@ -0,0 +1,97 @@
+// CSV 처리 유틸리티
+
+/**
+ * CSV 파싱 유틸리티 (RFC 4180: 따옴표 안의 쉼표/줄바꿈/"" 이스케이프 지원)
+ */
+export class CsvUtils {
+  /**
+   * CSV 텍스트를 행 배열로 파싱 (빈 행 제외)
+   */
+  static parse(text: string, delimiter?: string): string[][] {
+    const source = text.replace(/^\uFEFF/, '');
+    const sep = delimiter ?? this.detectDelimiter(source);
+    const rows: string[][] = [];
+    let row: string[] = [];
+    let field = '';
+    let inQuotes = false;
+
+    for (let i = 0; i < source.length; i++) {
+      const char = source[i];
+
+      if (inQuotes) {
+        if (char === '"') {
+          if (source[i + 1] === '"') {
+            field += '"';
+            i++;
+          } else {
+            inQuotes = false;
+          }
+        } else {
+          field += char;
+        }
+        continue;
+      }
+
+      if (char === '"') {
+        inQuotes = true;
+      } else if (char === sep) {
+        row.push(field);
+        field = '';
+      } else if (char === '\n' || char === '\r') {
+        if (char === '\r' && source[i + 1] === '\n') i++;
+        row.push(field);
+        rows.push(row);
+        row = [];
+        field = '';
+      } else {
+        field += char;
+      }
+    }
+
+    if (field || row.length > 0) {
+      row.push(field);
+      rows.push(row);
+    }
+
+    return rows.filter(cells => cells.some(cell => cell.trim() !== ''));
+  }
+
+  /**
+   * 첫 행을 헤더로 사용해 객체 배열로 변환
+   */
+  static parseRecords(text: string, delimiter?: string): { headers: string[]; records: Record<string, string>[] } {
+    const [headerRow, ...rows] = this.parse(text, delimiter);
+    if (!headerRow) return { headers: [], records: [] };
+
+    const headers = headerRow.map(header => header.trim());
+    const records = rows.map(cells => {
+      const record: Record<string, string> = {};
+      headers.forEach((header, index) => {
+        record[header] = (cells[index] ?? '').trim();
+      });
+      return record;
+    });
+
+    return { headers, records };
+  }
+
+  /**
+   * 첫 줄 기준으로 구분자 추정 (쉼표/탭/세미콜론)
+   */
+  static detectDelimiter(text: string): string {
+    const firstLine = text.split(/\r?\n/, 1)[0] ?? '';
+    const candidates = [',', '\t', ';'];
+    let best = ',';
+    let bestCount = 0;
+
+    for (const candidate of candidates) {
+      const count = firstLine.split(candidate).length - 1;
+      if (count > bestCount) {
+        best = candidate;
+        bestCount = count;
+      }
+    }
+
+    return best;
+  }
+}
@@ -0,0 +1,78 @@
+// 이미지 바이너리 유틸리티
+
+/**
+ * 이미지 크기 (픽셀)
+ */
+export interface ImageSize {
+  width: number;
+  height: number;
+}
+
+/**
+ * 이미지 헤더에서 크기 읽기 (JPEG/PNG/GIF/WebP, 알 수 없는 형식이면 null)
+ */
+export function readImageSize(data: ArrayBuffer): ImageSize | null {
+  const bytes = new Uint8Array(data);
+  const view = new DataView(data);
+  if (bytes.length < 24) return null;
+
+  // PNG: IHDR의 너비/높이 (빅엔디언)
+  if (bytes[0] === 0x89 && bytes[1] === 0x50 && bytes[2] === 0x4e && bytes[3] === 0x47) {
+    return { width: view.getUint32(16), height: view.getUint32(20) };
+  }
+
+  // GIF: 논리 화면 크기 (리틀엔디언)
+  if (bytes[0] === 0x47 && bytes[1] === 0x49 && bytes[2] === 0x46) {
+    return { width: view.getUint16(6, true), height: view.getUint16(8, true) };
+  }
+
+  // WebP: VP8 / VP8L / VP8X 청크
+  if (ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 4) === 'WEBP' && bytes.length >= 30) {
+    const chunk = ascii(bytes, 12, 4);
+    if (chunk === 'VP8 ') {
+      return { width: view.getUint16(26, true) & 0x3fff, height: view.getUint16(28, true) & 0x3fff };
+    }
+    if (chunk === 'VP8L') {
+      const bits = view.getUint32(21, true);
+      return { width: (bits & 0x3fff) + 1, height: ((bits >> 14) & 0x3fff) + 1 };
+    }
+    if (chunk === 'VP8X') {
+      return {
+        width: (bytes[24] | (bytes[25] << 8) | (bytes[26] << 16)) + 1,
+        height: (bytes[27] | (bytes[28] << 8) | (bytes[29] << 16)) + 1
+      };
+    }
+    return null;
+  }
+
+  // JPEG: SOF 마커까지 세그먼트를 건너뛰며 탐색
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    let offset = 2;
+    while (offset + 9 < bytes.length) {
+      if (bytes[offset] !== 0xff) return null;
+      const marker = bytes[offset + 1];
+      const length = view.getUint16(offset + 2);
+      const isStartOfFrame = marker >= 0xc0 && marker <= 0xcf && marker !== 0xc4 && marker !== 0xc8 && marker !== 0xcc;
+      if (isStartOfFrame) {
+        return { width: view.getUint16(offset + 7), height: view.getUint16(offset + 5) };
+      }
+      offset += 2 + length;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * 이미지 바이너리를 data URL로 변환
+ */
+export function toDataUrl(data: ArrayBuffer, contentType: string): string {
+  let binary = '';
+  const bytes = new Uint8Array(data);
+  for (let i = 0; i < bytes.byteLength; i++) binary += String.fromCharCode(bytes[i]);
+  return `data:${contentType};base64,${btoa(binary)}`;
+}
+
+function ascii(bytes: Uint8Array, start: number, length: number): string {
+  return String.fromCharCode(...Array.from(bytes.subarray(start, start + length)));
+}
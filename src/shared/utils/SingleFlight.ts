@@ -0,0 +1,84 @@
+// 동일 요청 병합 (single-flight)
+
+import { NetworkError } from '../../domain/models/Errors';
+
+/**
+ * 요청 병합 통계
+ */
+export interface SingleFlightStats {
+  started: number;   // 실제로 실행한 요청 수
+  coalesced: number; // 진행 중인 요청에 합류한 호출 수
+  inFlight: number;  // 현재 진행 중인 요청 수
+}
+
+interface Flight<T> {
+  promise: Promise<T>;
+  deadline: number; // 실행할 때 받은 제한 시간이 끝나는 시각
+}
+
+/**
+ * 같은 키의 요청이 동시에 들어오면 하나만 실행하고 결과를 공유
+ *
+ * 제한 시간 처리:
+ * - 제한 시간과 관계없이 항상 진행 중인 요청에 합류
+ * - 합류한 호출자의 제한 시간이 더 짧으면 그 시간이 지났을 때 먼저 포기 (진행 중인 요청은 계속)
+ * - 진행 중인 요청이 자신의 제한 시간을 넘겨 실패했는데 합류한 호출자에게 시간이 남았으면
+ *   남은 시간으로 다시 실행 (먼저 시작한 요청의 시간 초과를 물려받지 않도록)
+ */
+export class SingleFlight<T> {
+  private readonly flights = new Map<string, Flight<T>>();
+  private started = 0;
+  private coalesced = 0;
+
+  run(key: string, timeout: number, task: () => Promise<T>): Promise<T> {
+    const existing = this.flights.get(key);
+    if (!existing) {
+      return this.start(key, timeout, task);
+    }
+
+    this.coalesced++;
+    const deadline = Date.now() + timeout;
+    if (deadline < existing.deadline) {
+      return this.withTimeout(existing.promise, key, timeout);
+    }
+
+    return existing.promise.catch(error => {
+      const now = Date.now();
+      if (now >= existing.deadline && deadline > now) {
+        return this.run(key, deadline - now, task);
+      }
+      throw error;
+    });
+  }
+
+  getStats(): SingleFlightStats {
+    return {
+      started: this.started,
+      coalesced: this.coalesced,
+      inFlight: this.flights.size
+    };
+  }
+
+  private start(key: string, timeout: number, task: () => Promise<T>): Promise<T> {
+    const flight: Flight<T> = {
+      promise: task().finally(() => {
+        // 다시 실행된 요청으로 대체되었으면 새 요청의 항목은 남겨 둠
+        if (this.flights.get(key) === flight) {
+          this.flights.delete(key);
+        }
+      }),
+      deadline: Date.now() + timeout
+    };
+    this.flights.set(key, flight);
+    this.started++;
+    return flight.promise;
+  }
+
+  private withTimeout(promise: Promise<T>, key: string, timeout: number): Promise<T> {
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const expired = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new NetworkError('요청 시간이 초과되었습니다', undefined, { key, timeout })), timeout);
+    });
+    return Promise.race([promise, expired]).finally(() => clearTimeout(timer));
+  }
+}
@@ -0,0 +1,609 @@
+// 노트/파일명 템플릿 엔진 (조건문, 반복문, 필터 지원)
+
+import { TemplateError } from '../../domain/models/Errors';
+import { TextUtils } from './TextUtils';
+
+/**
+ * 템플릿에서 사용할 수 있는 값
+ */
+export type TemplateValue =
+  | string
+  | number
+  | boolean
+  | null
+  | undefined
+  | readonly TemplateValue[]
+  | { readonly [key: string]: TemplateValue };
+
+/**
+ * 템플릿 렌더링 컨텍스트
+ */
+export type TemplateContext = Record<string, TemplateValue>;
+
+/**
+ * 필터 함수 (값과 인자를 받아 변환된 값 반환)
+ */
+export type TemplateFilter = (value: TemplateValue, ...args: string[]) => TemplateValue;
+
+/**
+ * 렌더링 옵션
+ */
+export interface TemplateRenderOptions {
+  /** 필터 없이 출력되는 최상위 변수의 기본 포맷터 (기존 템플릿 호환용) */
+  formatters?: Record<string, (value: TemplateValue) => string>;
+  /**
+   * 컨텍스트에 없는 변수를 원문({{name}}) 그대로 남길지 여부
+   * (켜면 해석할 수 없는 태그도 오류 없이 원문으로 남김 - Obsidian 템플릿의 {{date:YYYY-MM-DD}} 등)
+   */
+  keepUnknown?: boolean;
+}
+
+/**
+ * 컴파일 옵션
+ */
+export interface TemplateCompileOptions {
+  /** 문법 오류를 던지지 않고 해당 태그를 원문 텍스트로 취급 */
+  lenient?: boolean;
+}
+
+interface FilterCall {
+  name: string;
+  args: string[];
+}
+
+interface Expression {
+  path: string[];
+  filters: FilterCall[];
+}
+
+type TemplateNode =
+  | { type: 'text'; value: string }
+  | { type: 'output'; expression: Expression; source: string }
+  | { type: 'if'; expression: Expression; consequent: TemplateNode[]; alternate: TemplateNode[] }
+  | { type: 'each'; expression: Expression; body: TemplateNode[]; alternate: TemplateNode[] };
+
+type Token =
+  | { kind: 'text'; value: string }
+  | { kind: 'tag'; tag: string; source: string; line: number; column: number };
+
+interface Scope {
+  item: TemplateValue;
+  index: number;
+  length: number;
+}
+
+/**
+ * 컴파일된 템플릿
+ */
+export class CompiledTemplate {
+  constructor(private readonly nodes: TemplateNode[]) {}
+
+  render(context: TemplateContext, options: TemplateRenderOptions = {}): string {
+    return renderNodes(this.nodes, context, [], options);
+  }
+}
+
+/**
+ * 핸들바 스타일의 경량 템플릿 엔진
+ *
+ * 지원 문법:
+ * - 변수: {{title}}, {{this.name}}
+ * - 필터: {{title | slug}}, {{publishDate | date:"YYYY"}}, {{description | truncate:300}}
+ * - 조건문: {{#if isbn}}…{{else}}…{{/if}}
+ * - 반복문: {{#each authors}}{{this}}{{#unless @last}}, {{/unless}}{{/each}}
+ * - 주석: {{! 출력되지 않음 }}
+ *
+ * 블록 태그만 단독으로 있는 줄은 줄 전체가 제거되어 빈 줄이 남지 않습니다.
+ */
+export class TemplateEngine {
+  private static readonly filters: Record<string, TemplateFilter> = {
+    slug: (value) => slugify(stringify(value)),
+    date: (value, format = 'YYYY-MM-DD') => formatDate(stringify(value), format),
+    truncate: (value, length = '100', suffix = '...') => {
+      const max = parseInt(length, 10);
+      return isNaN(max) ? stringify(value) : TextUtils.truncate(stringify(value), max, suffix);
+    },
+    join: (value, separator = ', ') => Array.isArray(value)
+      ? value.map(stringify).join(separator)
+      : stringify(value),
+    default: (value, fallback = '') => isTruthy(value) ? value : fallback,
+    upper: (value) => stringify(value).toUpperCase(),
+    lower: (value) => stringify(value).toLowerCase(),
+    trim: (value) => stringify(value).trim()
+  };
+
+  /**
+   * 템플릿 문자열을 컴파일 (문법 오류 시 TemplateError, lenient면 원문 유지)
+   */
+  static compile(template: string, options: TemplateCompileOptions = {}): CompiledTemplate {
+    const lenient = options.lenient ?? false;
+    const tokens = stripStandaloneLines(tokenize(template, lenient));
+    const nodes = parseTokens(tokens, (name) => hasOwn(this.filters, name), lenient);
+    return new CompiledTemplate(nodes);
+  }
+
+  /**
+   * 템플릿 문자열을 컴파일 후 렌더링
+   */
+  static render(template: string, context: TemplateContext, options: TemplateRenderOptions = {}): string {
+    return this.compile(template, { lenient: options.keepUnknown }).render(context, options);
+  }
+
+  /**
+   * 문법 검사 (오류가 없으면 null)
+   */
+  static validate(template: string): TemplateError | null {
+    try {
+      this.compile(template);
+      return null;
+    } catch (error) {
+      if (error instanceof TemplateError) return error;
+      return new TemplateError(error instanceof Error ? error.message : String(error));
+    }
+  }
+
+  /**
+   * 필터 적용 (렌더링 단계에서 사용)
+   */
+  static applyFilter(name: string, value: TemplateValue, args: string[]): TemplateValue {
+    return this.filters[name](value, ...args);
+  }
+
+  /**
+   * 사용 가능한 필터 이름 목록
+   */
+  static getFilterNames(): string[] {
+    return Object.keys(this.filters);
+  }
+}
+
+// === 토큰화 ===
+
+function tokenize(template: string, lenient: boolean): Token[] {
+  const tokens: Token[] = [];
+  let cursor = 0;
+
+  while (cursor < template.length) {
+    const open = template.indexOf('{{', cursor);
+    if (open === -1) {
+      tokens.push({ kind: 'text', value: template.slice(cursor) });
+      break;
+    }
+
+    if (open > cursor) {
+      tokens.push({ kind: 'text', value: template.slice(cursor, open) });
+    }
+
+    const close = template.indexOf('}}', open + 2);
+    const { line, column } = positionOf(template, open);
+    if (close === -1) {
+      if (lenient) {
+        tokens.push({ kind: 'text', value: template.slice(open) });
+        break;
+      }
+      throw new TemplateError('닫히지 않은 태그입니다 ("}}" 누락)', line, column);
+    }
+
+    const source = template.slice(open, close + 2);
+    tokens.push({ kind: 'tag', tag: source.slice(2, -2).trim(), source, line, column });
+    cursor = close + 2;
+  }
+
+  return tokens;
+}
+
+function positionOf(template: string, offset: number): { line: number; column: number } {
+  const before = template.slice(0, offset);
+  const lines = before.split('\n');
+  return { line: lines.length, column: lines[lines.length - 1].length + 1 };
+}
+
+/**
+ * 블록 태그만 있는 줄을 줄째로 제거 (빈 줄 방지)
+ */
+function stripStandaloneLines(tokens: Token[]): Token[] {
+  const isBlockTag = (token: Token): boolean =>
+    token.kind === 'tag' && /^[#/!]|^else$/.test(token.tag);
+
+  const standalone = tokens.map((token, i) => {
+    if (!isBlockTag(token)) return false;
+
+    const prev = tokens[i - 1];
+    const next = tokens[i + 1];
+
+    const prevOk = !prev || (prev.kind === 'text' && (
+      /\n[ \t]*$/.test(prev.value) || (i === 1 && /^[ \t]*$/.test(prev.value))
+    ));
+    const nextOk = !next || (next.kind === 'text' && (
+      /^[ \t]*\r?\n/.test(next.value) || (i === tokens.length - 2 && /^[ \t]*$/.test(next.value))
+    ));
+
+    return prevOk && nextOk;
+  });
+
+  const result = tokens.map(token => ({ ...token }));
+  standalone.forEach((isStandalone, i) => {
+    if (!isStandalone) return;
+    const prev = result[i - 1];
+    const next = result[i + 1];
+    if (prev && prev.kind === 'text') prev.value = prev.value.replace(/[ \t]*$/, '');
+    if (next && next.kind === 'text') next.value = next.value.replace(/^[ \t]*\r?\n?/, '');
+  });
+
+  return result;
+}
+
+// === 파싱 ===
+
+type BlockFrame = {
+  kind: 'if' | 'unless' | 'each';
+  expression: Expression;
+  source: string;
+  elseSource?: string;
+  main: TemplateNode[];
+  alternate: TemplateNode[];
+  inElse: boolean;
+  line: number;
+  column: number;
+};
+
+function parseTokens(
+  tokens: Token[],
+  hasFilter: (name: string) => boolean,
+  lenient: boolean
+): TemplateNode[] {
+  const root: TemplateNode[] = [];
+  const stack: BlockFrame[] = [];
+  const current = (): TemplateNode[] => {
+    const top = stack[stack.length - 1];
+    if (!top) return root;
+    return top.inElse ? top.alternate : top.main;
+  };
+
+  for (const token of tokens) {
+    if (token.kind === 'text') {
+      if (token.value) current().push({ type: 'text', value: token.value });
+      continue;
+    }
+
+    try {
+      parseTag(token, stack, current, hasFilter);
+    } catch (error) {
+      // 관대한 모드: 해석할 수 없는 태그는 원문 그대로 출력
+      if (!lenient || !(error instanceof TemplateError)) throw error;
+      current().push({ type: 'text', value: token.source });
+    }
+  }
+
+  let unclosed = stack.pop();
+  if (unclosed && !lenient) {
+    throw new TemplateError(`#${unclosed.kind} 블록이 닫히지 않았습니다`, unclosed.line, unclosed.column);
+  }
+
+  // 관대한 모드: 닫히지 않은 블록은 여는 태그부터 원문으로 되돌림
+  while (unclosed) {
+    current().push(...flattenBlock(unclosed));
+    unclosed = stack.pop();
+  }
+
+  return root;
+}
+
+function parseTag(
+  token: Extract<Token, { kind: 'tag' }>,
+  stack: BlockFrame[],
+  current: () => TemplateNode[],
+  hasFilter: (name: string) => boolean
+): void {
+  const { tag, source, line, column } = token;
+
+  if (tag === '') {
+    throw new TemplateError('비어 있는 태그입니다', line, column);
+  }
+
+  if (tag.startsWith('!')) return;
+
+  if (tag.startsWith('#')) {
+    const match = tag.match(/^#(\w+)\s*(.*)$/);
+    const helper = match?.[1] || '';
+    if (helper !== 'if' && helper !== 'unless' && helper !== 'each') {
+      throw new TemplateError(`알 수 없는 블록입니다: #${helper}`, line, column);
+    }
+    if (!match?.[2]) {
+      throw new TemplateError(`#${helper} 블록에 변수가 필요합니다`, line, column);
+    }
+    stack.push({
+      kind: helper,
+      expression: parseExpression(match[2], line, column, hasFilter),
+      source,
+      main: [],
+      alternate: [],
+      inElse: false,
+      line,
+      column
+    });
+    return;
+  }
+
+  if (tag === 'else') {
+    const top = stack[stack.length - 1];
+    if (!top) {
+      throw new TemplateError('{{else}}가 블록 밖에 있습니다', line, column);
+    }
+    if (top.inElse) {
+      throw new TemplateError(`#${top.kind} 블록에 {{else}}가 중복되었습니다`, line, column);
+    }
+    top.inElse = true;
+    top.elseSource = source;
+    return;
+  }
+
+  if (tag.startsWith('/')) {
+    const name = tag.slice(1).trim();
+    const top = stack[stack.length - 1];
+    if (!top) {
+      throw new TemplateError(`여는 블록 없이 {{/${name}}}가 사용되었습니다`, line, column);
+    }
+    if (top.kind !== name) {
+      throw new TemplateError(
+        `#${top.kind} 블록(${top.line}번째 줄)이 {{/${name}}}로 닫혔습니다`,
+        line,
+        column
+      );
+    }
+    stack.pop();
+    current().push(buildBlockNode(top));
+    return;
+  }
+
+  current().push({
+    type: 'output',
+    expression: parseExpression(tag, line, column, hasFilter),
+    source
+  });
+}
+
+function flattenBlock(frame: BlockFrame): TemplateNode[] {
+  const nodes: TemplateNode[] = [{ type: 'text', value: frame.source }, ...frame.main];
+  if (frame.inElse) {
+    nodes.push({ type: 'text', value: frame.elseSource ?? '{{else}}' }, ...frame.alternate);
+  }
+  return nodes;
+}
+
+function buildBlockNode(frame: BlockFrame): TemplateNode {
+  switch (frame.kind) {
+    case 'if':
+      return { type: 'if', expression: frame.expression, consequent: frame.main, alternate: frame.alternate };
+    case 'unless':
+      return { type: 'if', expression: frame.expression, consequent: frame.alternate, alternate: frame.main };
+    case 'each':
+      return { type: 'each', expression: frame.expression, body: frame.main, alternate: frame.alternate };
+  }
+}
+
+function parseExpression(
+  source: string,
+  line: number,
+  column: number,
+  hasFilter: (name: string) => boolean
+): Expression {
+  const [head, ...filterParts] = splitOutsideQuotes(source, '|').map(part => part.trim());
+
+  if (!/^(@?[\w가-힣]+)(\.[\w가-힣]+)*$/.test(head)) {
+    throw new TemplateError(`잘못된 변수 이름입니다: "${head}"`, line, column);
+  }
+
+  const filters = filterParts.map(part => {
+    const colon = part.indexOf(':');
+    const name = (colon === -1 ? part : part.slice(0, colon)).trim();
+    if (!hasFilter(name)) {
+      throw new TemplateError(`알 수 없는 필터입니다: "${name}"`, line, column);
+    }
+    const args = colon === -1
+      ? []
+      : splitOutsideQuotes(part.slice(colon + 1), ',').map(arg => unquote(arg.trim(), line, column));
+    return { name, args };
+  });
+
+  return { path: head.split('.'), filters };
+}
+
+function splitOutsideQuotes(source: string, separator: string): string[] {
+  const parts: string[] = [];
+  let quote: string | null = null;
+  let buffer = '';
+
+  for (const char of source) {
+    if (quote) {
+      if (char === quote) quote = null;
+      buffer += char;
+    } else if (char === '"' || char === "'") {
+      quote = char;
+      buffer += char;
+    } else if (char === separator) {
+      parts.push(buffer);
+      buffer = '';
+    } else {
+      buffer += char;
+    }
+  }
+  parts.push(buffer);
+
+  return parts;
+}
+
+function unquote(arg: string, line: number, column: number): string {
+  const quoted = arg.match(/^(["'])(.*)\1$/s);
+  if (quoted) return quoted[2];
+  if (/^["']/.test(arg)) {
+    throw new TemplateError(`닫히지 않은 따옴표입니다: ${arg}`, line, column);
+  }
+  return arg;
+}
+
+// === 렌더링 ===
+
+function renderNodes(
+  nodes: TemplateNode[],
+  context: TemplateContext,
+  scopes: Scope[],
+  options: TemplateRenderOptions
+): string {
+  let output = '';
+
+  for (const node of nodes) {
+    switch (node.type) {
+      case 'text':
+        output += node.value;
+        break;
+      case 'output':
+        output += renderOutput(node.expression, node.source, context, scopes, options);
+        break;
+      case 'if': {
+        const value = evaluate(node.expression, context, scopes);
+        output += renderNodes(isTruthy(value) ? node.consequent : node.alternate, context, scopes, options);
+        break;
+      }
+      case 'each': {
+        const value = evaluate(node.expression, context, scopes);
+        const items = toList(value);
+        if (items.length === 0) {
+          output += renderNodes(node.alternate, context, scopes, options);
+          break;
+        }
+        items.forEach((item, index) => {
+          output += renderNodes(node.body, context, [...scopes, { item, index, length: items.length }], options);
+        });
+        break;
+      }
+    }
+  }
+
+  return output;
+}
+
+function renderOutput(
+  expression: Expression,
+  source: string,
+  context: TemplateContext,
+  scopes: Scope[],
+  options: TemplateRenderOptions
+): string {
+  const [root] = expression.path;
+  const isRootVariable = expression.path.length === 1 && !root.startsWith('@') && root !== 'this';
+
+  if (isRootVariable && !hasOwn(context, root) && !isScopedName(root, scopes)) {
+    return options.keepUnknown ? source : '';
+  }
+
+  const value = evaluate(expression, context, scopes);
+
+  if (expression.filters.length === 0 && isRootVariable && !isScopedName(root, scopes)) {
+    const formatter = options.formatters && hasOwn(options.formatters, root) ? options.formatters[root] : undefined;
+    if (formatter) return formatter(value);
+  }
+
+  return stringify(value);
+}
+
+function evaluate(expression: Expression, context: TemplateContext, scopes: Scope[]): TemplateValue {
+  let value = resolvePath(expression.path, context, scopes);
+  for (const filter of expression.filters) {
+    value = TemplateEngine.applyFilter(filter.name, value, filter.args);
+  }
+  return value;
+}
+
+function resolvePath(path: string[], context: TemplateContext, scopes: Scope[]): TemplateValue {
+  const [head, ...rest] = path;
+  const scope = scopes[scopes.length - 1];
+
+  let value: TemplateValue;
+  if (head === 'this') {
+    value = scope ? scope.item : undefined;
+  } else if (head.startsWith('@')) {
+    value = scope ? resolveLoopVariable(head, scope) : undefined;
+  } else {
+    const owner = [...scopes].reverse().find(s => isRecord(s.item) && hasOwn(s.item, head));
+    value = owner ? (owner.item as Record<string, TemplateValue>)[head] : (hasOwn(context, head) ? context[head] : undefined);
+  }
+
+  for (const key of rest) {
+    value = isRecord(value) && hasOwn(value, key) ? value[key] : undefined;
+  }
+
+  return value;
+}
+
+function resolveLoopVariable(name: string, scope: Scope): TemplateValue {
+  switch (name) {
+    case '@index': return scope.index;
+    case '@number': return scope.index + 1;
+    case '@first': return scope.index === 0;
+    case '@last': return scope.index === scope.length - 1;
+    default: return undefined;
+  }
+}
+
+function isScopedName(name: string, scopes: Scope[]): boolean {
+  return scopes.some(s => isRecord(s.item) && hasOwn(s.item, name));
+}
+
+/**
+ * 자체 속성만 확인 (constructor, toString 등 Object.prototype 키 제외)
+ */
+function hasOwn(target: object, key: string): boolean {
+  return Object.prototype.hasOwnProperty.call(target, key);
+}
+
+function isRecord(value: TemplateValue): value is { readonly [key: string]: TemplateValue } {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isTruthy(value: TemplateValue): boolean {
+  if (Array.isArray(value)) return value.length > 0;
+  if (typeof value === 'string') return value.trim().length > 0;
+  return Boolean(value);
+}
+
+function toList(value: TemplateValue): readonly TemplateValue[] {
+  if (Array.isArray(value)) return value;
+  return isTruthy(value) ? [value] : [];
+}
+
+function stringify(value: TemplateValue): string {
+  if (value === undefined || value === null) return '';
+  if (Array.isArray(value)) return value.map(stringify).join(', ');
+  if (typeof value === 'object') return JSON.stringify(value);
+  return String(value);
+}
+
+// === 필터 구현 ===
+
+function slugify(text: string): string {
+  return text
+    .toLowerCase()
+    .trim()
+    .replace(/\s+/g, '-')
+    .replace(/[^\w가-힣-]/g, '')
+    .replace(/-{2,}/g, '-')
+    .replace(/^-+|-+$/g, '');
+}
+
+function formatDate(text: string, format: string): string {
+  const normalized = TextUtils.normalizeDateString(text);
+  if (!normalized) return text;
+
+  const [year, month, day] = normalized.split('-');
+  const tokens: Record<string, string> = {
+    YYYY: year,
+    YY: year.slice(-2),
+    MM: month,
+    M: String(parseInt(month, 10)),
+    DD: day,
+    D: String(parseInt(day, 10))
+  };
+
+  return format.replace(/YYYY|YY|MM|M|DD|D/g, token => tokens[token]);
+}
@@ -177,8 +177,8 @@ export class TextUtils {
 
     // 다양한 날짜 형식 패턴
     const patterns = [
-      /(\d{4})[년\-\.\/](\d{1,2})[월\-\.\/](\d{1,2})[일]?/,
-      /(\d{4})[년\-\.\/](\d{1,2})/,
+      /(\d{4})\s*[년\-\.\/]\s*(\d{1,2})\s*[월\-\.\/]\s*(\d{1,2})[일]?/,
+      /(\d{4})\s*[년\-\.\/]\s*(\d{1,2})/,
       /(\d{4})/
     ];
 
@@ -227,17 +227,35 @@ export class TextUtils {
   }
 
   /**
-   * 파일명에 안전한 문자열로 변환
+   * 파일명에 안전한 문자열로 변환 (Windows/macOS/Linux 및 Obsidian 링크 호환)
    */
-  static toSafeFileName(text: string): string {
+  static toSafeFileName(text: string, maxLength = 100): string {
     if (!text) return 'untitled';
 
-    return this.clean(text)
-      .replace(/[\\/:*?"<>|]/g, '_') // 파일명에 사용 불가능한 문자들 제거
-      .replace(/\s+/g, '_')          // 공백을 언더스코어로
-      .replace(/_{2,}/g, '_')        // 연속된 언더스코어를 하나로
-      .replace(/^_+|_+$/g, '')       // 시작/끝의 언더스코어 제거
-      .slice(0, 100);                // 길이 제한
+    const safe = this.clean(text)
+      .replace(/[\\/:*?"<>|#^[\]]/g, '_') // OS/Obsidian 링크에서 사용 불가능한 문자들 치환
+      .replace(/_{2,}/g, '_')            // 연속된 언더스코어를 하나로
+      .slice(0, maxLength)               // 길이 제한
+      .replace(/^[\s.]+|[\s.]+$/g, '');  // 시작/끝의 공백과 마침표 제거 (Windows)
+
+    if (!safe) return 'untitled';
+
+    // Windows 예약 이름 회피
+    return /^(con|prn|aux|nul|com\d|lpt\d)$/i.test(safe) ? `${safe}_` : safe;
+  }
+
+  /**
+   * '/'로 구분된 상대 경로의 각 조각을 파일명에 안전한 문자열로 변환
+   */
+  static toSafeFilePath(path: string, maxLength = 100): string {
+    if (!path) return '';
+
+    return path
+      .split('/')
+      .map(segment => segment.trim())
+      .filter(segment => segment.length > 0 && segment !== '.' && segment !== '..')
+      .map(segment => this.toSafeFileName(segment, maxLength))
+      .join('/');
   }
 
   /**
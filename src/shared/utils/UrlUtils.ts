@@ -1,5 +1,27 @@
 // URL 처리 유틸리티
 
+import { BookSearchCategory, BookSortBy } from '../../domain/models/Book';
+
+/**
+ * 검색 카테고리별 교보문고 gbCode
+ */
+const SEARCH_CATEGORY_CODES: Record<BookSearchCategory, string> = {
+  all: 'TOT',
+  domestic: 'KOR',
+  foreign: 'ENG',
+  ebook: 'EBK'
+};
+
+/**
+ * 교보문고 검색이 직접 지원하는 정렬(내림차순)의 ra 파라미터
+ * (그 외 정렬은 BookService에서 클라이언트 측으로 처리)
+ */
+const SEARCH_SORT_CODES: Partial<Record<BookSortBy, string>> = {
+  publishDate: 'date',
+  sales: 'qntt',
+  rating: 'kcont'
+};
+
 /**
  * URL 및 링크 처리 유틸리티
  */
@@ -90,21 +112,40 @@ export class UrlUtils {
   }
 
   /**
-   * 교보문고 검색 URL 생성
+   * 교보문고 검색 URL 생성 (page는 1부터)
    */
-  static buildSearchUrl(query: string, maxResults = 20): string {
+  static buildSearchUrl(
+    query: string,
+    maxResults = 20,
+    page = 1,
+    options: { category?: BookSearchCategory; sortBy?: BookSortBy } = {}
+  ): string {
     if (!query) return '';
 
     const params = new URLSearchParams({
       keyword: query.trim(),
       target: 'total',
-      gbCode: 'TOT',
+      gbCode: SEARCH_CATEGORY_CODES[options.category ?? 'all'],
       len: maxResults.toString()
     });
+    if (page > 1) {
+      params.set('page', page.toString());
+    }
+    const sortCode = options.sortBy ? SEARCH_SORT_CODES[options.sortBy] : undefined;
+    if (sortCode) {
+      params.set('ra', sortCode);
+    }
 
     return `https://search.kyobobook.co.kr/search?${params.toString()}`;
   }
 
+  /**
+   * 정렬 기준을 검색 URL로 처리할 수 있는지 여부
+   */
+  static isServerSortSupported(sortBy: BookSortBy): boolean {
+    return sortBy === 'relevance' || SEARCH_SORT_CODES[sortBy] !== undefined;
+  }
+
   /**
    * 교보문고 표지 이미지 URL 생성
    */
@@ -379,27 +420,6 @@ export class UrlUtils {
     }
   }
 
-  /**
-   * 여러 이미지 URL 중 가장 적합한 것 선택
-   */
-  static selectBestImageUrl(urls: string[]): string | null {
-    if (!urls || urls.length === 0) return null;
-
-    // 유효한 URL만 필터링
-    const validUrls = urls.filter(url => this.isValidImageUrl(url));
-
-    if (validUrls.length === 0) return null;
-
-    // 교보문고 이미지 우선
-    const kyobobookImages = validUrls.filter(url => this.isKyobobookImageUrl(url));
-    if (kyobobookImages.length > 0) {
-      return kyobobookImages[0];
-    }
-
-    // 그 외 첫 번째 유효한 이미지
-    return validUrls[0];
-  }
-
   /**
    * URL의 도메인 추출
    */
@@ -26,6 +26,12 @@ export interface BookInfo {
   coverImage?: string;
 }
 
+// 기존 도서 노트가 있을 때의 처리 방식
+export type DuplicateNoteAction = 'ask' | 'open' | 'update' | 'copy';
+
+// 노트의 표지 처리 방식: 원격 URL / data URL 내장 / vault에 파일로 저장
+export type CoverImageMode = 'remote' | 'embed' | 'attachment';
+
 // 플러그인 설정
 export interface KyobobookPluginSettings {
   saveFolder: string;
@@ -40,8 +46,12 @@ export interface KyobobookPluginSettings {
   enforceStaticCover: boolean;
   // 목록 선조회 개수(상세정보)
   prefetchCount?: number;
-  // 노트에 표지를 data URL로 내장
+  // 노트에 표지를 data URL로 내장 (coverImageMode가 없을 때만 사용하는 이전 설정)
   embedCoverInNote?: boolean;
+  // 노트의 표지 처리 방식과 첨부 파일 저장 위치/파일명
+  coverImageMode?: CoverImageMode;
+  coverFolder?: string;           // vault 상대 경로
+  coverFilenameTemplate?: string; // 확장자 제외
   // 목차를 API로 우선 시도
   tocApiFirst?: boolean;
   // 파일 로깅 사용 및 경로
@@ -49,6 +59,23 @@ export interface KyobobookPluginSettings {
   logFilePath?: string; // vault 상대 경로
   // 검색 직후 상세 선조회 완전 비활성화(속도 우선)
   disablePrefetch?: boolean;
+  // 같은 도서(ISBN/교보문고 ID)의 노트가 이미 있을 때 기본 동작
+  duplicateNoteAction?: DuplicateNoteAction;
+  // 입력하는 동안 자동 검색 (Enter 없이)
+  liveSearch?: boolean;
+  liveSearchDelay?: number; // ms, 마지막 입력 후 대기 시간
+  // 현재 노트에 도서 삽입 (삽입 모드)
+  inlineTemplate?: string;
+  createNoteOnInsert?: boolean; // 삽입한 도서의 노트가 없으면 먼저 생성한 뒤 삽입
+  // 캐시 (변경은 다시 시작하면 적용)
+  cacheTimeoutMinutes?: number;       // 검색 결과 페이지 유지 시간
+  detailCacheTimeoutMinutes?: number; // 도서 상세 정보 유지 시간 (검색 결과보다 길게)
+  maxCacheSize?: number;              // 메모리에 둘 상세 정보 개수
+  maxSearchCacheSize?: number;        // 메모리에 둘 검색 결과 페이지 수
+  persistentCache?: boolean;          // 플러그인 폴더에 저장해 재시작 후에도 유지
+  maxDiskCacheMB?: number;            // 디스크 캐시 전체 크기 한도
+  staleWhileRevalidate?: boolean;     // 오래된 상세 정보를 먼저 보여주고 백그라운드에서 갱신
+  detailFreshMinutes?: number;        // 이 시간이 지난 상세 정보만 백그라운드 갱신
 }
 
 // 레거시 호환성을 위한 검색 결과 (deprecated)
@@ -0,0 +1,302 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import {
+  BatchImporter,
+  BatchImportJob,
+  BatchImportLine,
+  BatchLineStatus,
+  countStatuses
+} from '../infrastructure/vault/BatchImporter';
+import { PluginError } from '../domain/models/Errors';
+import { Logger } from '../shared/utils/Logger';
+import { VaultFileSuggestModal } from './vault-file-suggest-modal';
+
+const STATUS_LABELS: Record<BatchLineStatus, string> = {
+  pending: '대기',
+  created: '생성',
+  existing: '기존 노트',
+  ambiguous: '선택 필요',
+  notFound: '찾지 못함',
+  failed: '실패',
+  queued: '오프라인 대기',
+  skipped: '건너뜀'
+};
+
+/**
+ * 도서 일괄 가져오기 모달
+ *
+ * 한 줄에 하나씩 ISBN, 교보문고 URL 또는 "제목 / 저자"를 입력받아 노트를 만들고,
+ * 줄별 처리 결과를 표로 보여줍니다. 독서 기록 CSV(Goodreads/왓챠피디아/Yes24)도 불러올 수 있습니다.
+ * 모달을 닫으면 작업을 멈추고, 다음에 열 때 이어서 진행할 수 있습니다.
+ */
+export class BatchImportModal extends Modal {
+  private readonly importer: BatchImporter;
+  private readonly logger: Logger;
+  private readonly openCsvPicker: boolean;
+  private job?: BatchImportJob;
+  private inputText = '';
+  private source?: string;
+  private running = false;
+  private cancelled = false;
+
+  private summaryEl?: HTMLElement;
+  private tableBodyEl?: HTMLElement;
+  private stopButton?: HTMLButtonElement;
+
+  constructor(app: App, importer: BatchImporter, logger: Logger, openCsvPicker = false) {
+    super(app);
+    this.importer = importer;
+    this.logger = logger;
+    this.openCsvPicker = openCsvPicker;
+  }
+
+  async onOpen() {
+    this.modalEl.addClass('kyobobook-batch-import-modal');
+    const saved = await this.importer.loadJob();
+    this.renderInput(saved);
+
+    if (this.openCsvPicker) {
+      this.pickCsvFile();
+    }
+  }
+
+  onClose() {
+    if (this.running) {
+      this.cancelled = true;
+      new Notice('일괄 가져오기를 중단했습니다. 다시 열면 이어서 진행할 수 있습니다.');
+    }
+    this.contentEl.empty();
+  }
+
+  // === 입력 화면 ===
+
+  private renderInput(saved: BatchImportJob | null): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: '도서 일괄 가져오기' });
+
+    const savedCounts = saved ? countStatuses(saved) : null;
+    if (saved && savedCounts && (savedCounts.pending > 0 || savedCounts.ambiguous > 0)) {
+      new Setting(contentEl)
+        .setName('이전 작업이 남아 있습니다')
+        .setDesc(`전체 ${saved.lines.length}줄 중 대기 ${savedCounts.pending}, 선택 필요 ${savedCounts.ambiguous}`)
+        .addButton(button => button
+          .setButtonText('이어하기')
+          .setCta()
+          .onClick(() => this.start(saved)))
+        .addButton(button => button
+          .setButtonText('버리기')
+          .onClick(async () => {
+            await this.importer.discardJob();
+            this.renderInput(null);
+          }));
+    }
+
+    contentEl.createEl('p', {
+      cls: 'setting-item-description',
+      text: '한 줄에 하나씩 ISBN, 교보문고 상세 URL 또는 "제목 / 저자"를 입력하세요. 빈 줄과 #으로 시작하는 줄은 무시합니다.'
+    });
+
+    const textarea = contentEl.createEl('textarea', { cls: 'kyobobook-batch-input' });
+    textarea.rows = 12;
+    textarea.placeholder = '9788934972464\nhttps://product.kyobobook.co.kr/detail/S000001234567\n사피엔스 / 유발 하라리';
+    textarea.value = this.inputText;
+    textarea.addEventListener('input', () => {
+      this.inputText = textarea.value;
+      this.source = undefined;
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('파일에서 불러오기')
+        .onClick(() => {
+          new VaultFileSuggestModal(this.app, ['md', 'txt'], async (file) => {
+            this.inputText = await this.app.vault.cachedRead(file);
+            this.source = file.path;
+            textarea.value = this.inputText;
+          }).open();
+        }))
+      .addButton(button => button
+        .setButtonText('독서 기록 CSV 불러오기')
+        .setTooltip('Goodreads, 왓챠피디아, Yes24에서 내보낸 CSV')
+        .onClick(() => this.pickCsvFile()))
+      .addButton(button => button
+        .setButtonText('가져오기 시작')
+        .setCta()
+        .onClick(() => {
+          const job = this.importer.createJob(this.inputText, this.source);
+          if (job.lines.length === 0) {
+            new Notice('가져올 줄이 없습니다.');
+            return;
+          }
+          void this.start(job);
+        }));
+  }
+
+  /**
+   * CSV 파일을 골라 바로 가져오기 시작
+   */
+  private pickCsvFile(): void {
+    new VaultFileSuggestModal(this.app, ['csv'], async (file: TFile) => {
+      try {
+        const job = this.importer.createJobFromCsv(await this.app.vault.cachedRead(file), file.path);
+        if (job.lines.length === 0) {
+          new Notice('CSV에서 가져올 행이 없습니다.');
+          return;
+        }
+        new Notice(`${file.name}: ${job.lines.length}행을 가져옵니다.`);
+        void this.start(job);
+      } catch (error) {
+        const message = error instanceof PluginError ? error.getUserMessage() : String(error);
+        new Notice(`CSV를 읽을 수 없습니다: ${message}`);
+        this.logger.warn('BatchImportModal', 'CSV 파싱 실패', { path: file.path, error });
+      }
+    }).open();
+  }
+
+  // === 진행/결과 화면 ===
+
+  private async start(job: BatchImportJob): Promise<void> {
+    this.job = job;
+    this.renderProgress();
+
+    this.running = true;
+    this.cancelled = false;
+    try {
+      await this.importer.run(job, {
+        onLineUpdate: line => this.updateRow(line),
+        isCancelled: () => this.cancelled
+      });
+    } catch (error) {
+      this.logger.error('BatchImportModal', '일괄 가져오기 실패', { error });
+      new Notice('일괄 가져오기 상태를 저장하지 못했습니다.');
+    } finally {
+      this.running = false;
+    }
+
+    if (this.cancelled) return;
+
+    if (this.stopButton) this.stopButton.disabled = true;
+    await this.finishIfDone();
+
+    // CSV 가져오기는 매칭하지 못한 행을 검토 목록 노트로 남김
+    if (job.format) {
+      try {
+        const reviewFile = await this.importer.writeReviewNote(job);
+        if (reviewFile) new Notice(`매칭하지 못한 행을 검토 목록에 저장했습니다: ${reviewFile.path}`);
+      } catch (error) {
+        this.logger.error('BatchImportModal', '검토 목록 작성 실패', { error });
+      }
+    }
+
+    const counts = countStatuses(job);
+    new Notice(
+      `일괄 가져오기: 생성 ${counts.created}, 기존 ${counts.existing}, ` +
+      `선택 필요 ${counts.ambiguous}, 찾지 못함 ${counts.notFound}, 실패 ${counts.failed}` +
+      (counts.queued > 0 ? `, 오프라인 대기열 ${counts.queued}` : '')
+    );
+  }
+
+  private renderProgress(): void {
+    const { contentEl } = this;
+    contentEl.empty();
+    contentEl.createEl('h3', { text: '도서 일괄 가져오기' });
+    this.summaryEl = contentEl.createEl('p', { cls: 'kyobobook-batch-summary' });
+
+    const table = contentEl.createEl('table', { cls: 'kyobobook-batch-table' });
+    const header = table.createEl('thead').createEl('tr');
+    ['줄', '입력', '상태', '결과'].forEach(label => header.createEl('th', { text: label }));
+    this.tableBodyEl = table.createEl('tbody');
+
+    for (const line of this.job?.lines ?? []) {
+      this.tableBodyEl.createEl('tr', { attr: { 'data-line': line.line } });
+      this.updateRow(line);
+    }
+
+    new Setting(contentEl)
+      .addButton(button => {
+        this.stopButton = button.buttonEl;
+        button
+          .setButtonText('중지')
+          .onClick(() => {
+            this.cancelled = true;
+            button.setDisabled(true);
+            new Notice('현재 줄까지 처리한 뒤 중지합니다. 다음에 이어서 진행할 수 있습니다.');
+          });
+      })
+      .addButton(button => button
+        .setButtonText('닫기')
+        .onClick(() => this.close()));
+  }
+
+  private updateRow(line: BatchImportLine): void {
+    if (!this.tableBodyEl || !this.job) return;
+
+    const row = this.tableBodyEl.querySelector<HTMLElement>(`tr[data-line="${line.line}"]`);
+    if (!row) return;
+
+    row.empty();
+    row.className = `kyobobook-batch-row is-${line.status}`;
+    row.createEl('td', { text: String(line.line) });
+    row.createEl('td', { text: line.input });
+    row.createEl('td', { text: STATUS_LABELS[line.status] });
+
+    const resultCell = row.createEl('td');
+    if (line.status === 'ambiguous' && line.candidates) {
+      this.renderCandidatePicker(resultCell, line);
+    } else {
+      resultCell.setText(line.title ? `${line.title}${line.message ? ` (${line.message})` : ''}` : line.message ?? '');
+    }
+
+    this.updateSummary();
+  }
+
+  private renderCandidatePicker(cell: HTMLElement, line: BatchImportLine): void {
+    const job = this.job;
+    if (!job || !line.candidates) return;
+
+    const select = cell.createEl('select', { cls: 'dropdown' });
+    for (const candidate of line.candidates) {
+      const details = [candidate.authors.join(', '), candidate.publisher, candidate.publishDate].filter(Boolean).join(' · ');
+      select.createEl('option', { value: candidate.id, text: `${candidate.title} (${details})` });
+    }
+
+    const pick = cell.createEl('button', { text: '선택' });
+    pick.addEventListener('click', async () => {
+      pick.disabled = true;
+      await this.importer.resolveLine(job, line, select.value);
+      this.updateRow(line);
+      await this.finishIfDone();
+    });
+
+    const skip = cell.createEl('button', { text: '건너뛰기' });
+    skip.addEventListener('click', async () => {
+      await this.importer.skipLine(job, line);
+      this.updateRow(line);
+      await this.finishIfDone();
+    });
+  }
+
+  private updateSummary(): void {
+    if (!this.summaryEl || !this.job) return;
+
+    const counts = countStatuses(this.job);
+    const done = this.job.lines.length - counts.pending;
+    this.summaryEl.setText(
+      `${done} / ${this.job.lines.length} 처리 · 생성 ${counts.created} · 기존 ${counts.existing} · ` +
+      `선택 필요 ${counts.ambiguous} · 찾지 못함 ${counts.notFound} · 실패 ${counts.failed}` +
+      (counts.queued > 0 ? ` · 오프라인 대기열 ${counts.queued}` : '')
+    );
+  }
+
+  /**
+   * 대기/선택 필요 줄이 모두 처리되었으면 저장된 작업 정리
+   */
+  private async finishIfDone(): Promise<void> {
+    if (!this.job || this.running) return;
+
+    const counts = countStatuses(this.job);
+    if (counts.pending === 0 && counts.ambiguous === 0) {
+      await this.importer.discardJob();
+    }
+  }
+}
@@ -0,0 +1,134 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { BookReference, BookService } from '../application/services/BookService';
+import { OfflineError, PluginError } from '../domain/models/Errors';
+import { Logger } from '../shared/utils/Logger';
+import { UrlUtils } from '../shared/utils/UrlUtils';
+import KyobobookPlugin from '../main';
+import { KyobobookSearchModal } from './search-modal';
+import { saveAndOpenBookNote } from './note-actions';
+
+/**
+ * 교보문고 상세 URL 또는 ISBN을 붙여넣어 바로 노트를 만드는 모달
+ */
+export class BookReferenceModal extends Modal {
+  private readonly plugin: KyobobookPlugin;
+  private readonly bookService: BookService;
+  private readonly logger: Logger;
+  private value = '';
+
+  constructor(app: App, plugin: KyobobookPlugin, bookService: BookService, logger: Logger) {
+    super(app);
+    this.plugin = plugin;
+    this.bookService = bookService;
+    this.logger = logger;
+  }
+
+  async onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.modalEl.addClass('kyobobook-reference-modal');
+
+    contentEl.createEl('h3', { text: '교보문고 URL/ISBN으로 가져오기' });
+
+    // 클립보드에 URL/ISBN이 있으면 미리 채움
+    try {
+      const clipboard = (await navigator.clipboard.readText()).trim();
+      if (this.bookService.parseBookReference(clipboard)) {
+        this.value = clipboard;
+      }
+    } catch {
+      // 클립보드 접근 불가 시 무시
+    }
+
+    new Setting(contentEl)
+      .setName('상세 페이지 URL 또는 ISBN')
+      .setDesc('예: https://product.kyobobook.co.kr/detail/S000001234567, 978-89-349-7246-4')
+      .addText(text => {
+        text
+          .setPlaceholder('URL 또는 ISBN')
+          .setValue(this.value)
+          .onChange(value => { this.value = value; });
+        text.inputEl.addEventListener('keydown', (e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault();
+            void this.submit();
+          }
+        });
+        window.setTimeout(() => text.inputEl.focus(), 0);
+      });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('가져오기')
+        .setCta()
+        .onClick(() => this.submit()));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+  }
+
+  private async submit(): Promise<void> {
+    const reference = this.bookService.parseBookReference(this.value);
+    if (!reference) {
+      new Notice('교보문고 상세 페이지 URL 또는 10/13자리 ISBN을 입력해주세요.');
+      return;
+    }
+
+    this.close();
+    await importBookReference(this.app, this.plugin, this.bookService, this.logger, reference);
+  }
+}
+
+/**
+ * 도서 참조로 상세 정보를 가져와 노트 생성 (ISBN이 단일 도서로 확정되지 않으면 검색 모달로 전환)
+ * 오프라인이면 캐시에 있는 도서만 바로 가져오고, 나머지는 임시 노트를 만들어 가져오기 대기열에 추가
+ */
+export async function importBookReference(
+  app: App,
+  plugin: KyobobookPlugin,
+  bookService: BookService,
+  logger: Logger,
+  reference: BookReference
+): Promise<void> {
+  const input = reference.type === 'isbn' ? reference.isbn : UrlUtils.buildDetailPageUrl(reference.bookId);
+  new Notice('교보문고에서 도서 정보를 가져오는 중...');
+
+  try {
+    const result = await bookService.lookupBookReference(reference, {
+      maxResults: plugin.settings.maxSearchResults,
+      timeout: 15000,
+      tocApiFirst: plugin.settings.tocApiFirst
+    });
+
+    if (result.detail) {
+      await saveAndOpenBookNote(app, plugin, result.detail.book);
+      return;
+    }
+
+    // 오프라인 검색 결과(캐시)로 확정하지 못했으면 연결된 뒤 다시 찾기
+    if (plugin.isOffline()) {
+      await plugin.queueOfflineImport(input);
+      return;
+    }
+
+    const query = reference.type === 'isbn' ? reference.isbn : reference.bookId;
+    if (result.candidates.length === 0) {
+      new Notice(`"${query}"에 해당하는 도서를 찾지 못했습니다.`);
+      return;
+    }
+
+    new Notice('ISBN과 정확히 일치하는 도서를 찾지 못해 검색 결과를 표시합니다.');
+    new KyobobookSearchModal(app, plugin, bookService, logger).openWithResults(query, result.candidates);
+  } catch (error) {
+    // 요청 도중 연결이 끊겨 오프라인으로 전환된 경우
+    if (error instanceof OfflineError) {
+      await plugin.queueOfflineImport(input);
+      return;
+    }
+
+    const message = error instanceof PluginError ? error.getUserMessage() : String(error);
+    new Notice(`도서 가져오기 실패: ${message}`);
+    logger.error('BookReferenceModal', '도서 참조 가져오기 실패', { reference, error });
+  }
+}
@@ -0,0 +1,157 @@
+import { App, Modal, Notice, Setting, TFile } from 'obsidian';
+import { BulkNoteRefresher, BulkRefreshProgress, BulkRefreshReport } from '../infrastructure/vault/BulkNoteRefresher';
+import { Logger } from '../shared/utils/Logger';
+import { PluginError } from '../domain/models/Errors';
+
+/**
+ * 도서 노트 일괄 새로고침 진행 모달
+ *
+ * 모달을 닫아도 작업은 백그라운드에서 계속되며, 완료 시 보고서 노트를 엽니다.
+ * 진행 중에 커맨드를 다시 실행하면 같은 모달이 다시 열려 진행 상황을 보거나 취소할 수 있습니다.
+ */
+export class BulkRefreshModal extends Modal {
+  private readonly refresher: BulkNoteRefresher;
+  private readonly logger: Logger;
+  private readonly files: TFile[];
+  private readonly onFinished: () => void;
+  private cancelled = false;
+  private running = false;
+  private started = false;
+  private lastProgress?: BulkRefreshProgress;
+
+  private progressEl?: HTMLProgressElement;
+  private statusEl?: HTMLElement;
+  private countsEl?: HTMLElement;
+  private cancelButton?: HTMLButtonElement;
+
+  constructor(app: App, refresher: BulkNoteRefresher, logger: Logger, onFinished: () => void = () => undefined) {
+    super(app);
+    this.refresher = refresher;
+    this.logger = logger;
+    this.onFinished = onFinished;
+    this.files = refresher.collectBookNotes();
+  }
+
+  /**
+   * 새로고침 진행 중 여부 (백그라운드 포함)
+   */
+  isRunning(): boolean {
+    return this.running;
+  }
+
+  /**
+   * 진행 중인 새로고침 취소 (현재 노트까지 처리 후 중단)
+   */
+  cancel(): void {
+    this.cancelled = true;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.modalEl.addClass('kyobobook-bulk-refresh-modal');
+
+    contentEl.createEl('h3', { text: '도서 노트 일괄 새로고침' });
+
+    if (this.files.length === 0) {
+      contentEl.createEl('p', { text: '저장 폴더에 교보문고 ID가 있는 도서 노트가 없습니다.' });
+      this.onFinished();
+      return;
+    }
+
+    this.statusEl = contentEl.createEl('p', {
+      text: `${this.files.length}개의 도서 노트를 새로고침합니다. 요청 제한 때문에 시간이 걸릴 수 있습니다.`
+    });
+    this.progressEl = contentEl.createEl('progress', { cls: 'kyobobook-bulk-progress' });
+    this.progressEl.max = this.files.length;
+    this.progressEl.value = 0;
+    this.countsEl = contentEl.createEl('p', { cls: 'kyobobook-bulk-counts' });
+
+    new Setting(contentEl)
+      .addButton(button => {
+        this.cancelButton = button.buttonEl;
+        button
+          .setButtonText('취소')
+          .onClick(() => {
+            this.cancel();
+            button.setDisabled(true).setButtonText('취소하는 중...');
+          });
+        if (this.cancelled) {
+          button.setDisabled(true).setButtonText('취소하는 중...');
+        }
+      })
+      .addButton(button => button
+        .setButtonText('백그라운드에서 계속')
+        .onClick(() => this.close()));
+
+    // 다시 열린 경우 마지막 진행 상황 표시
+    if (this.lastProgress) {
+      this.renderProgress(this.lastProgress);
+    }
+
+    if (!this.started) {
+      void this.run();
+    }
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.progressEl = undefined;
+    this.statusEl = undefined;
+    this.countsEl = undefined;
+    this.cancelButton = undefined;
+
+    if (this.running && !this.cancelled) {
+      new Notice('도서 노트 새로고침을 백그라운드에서 계속합니다.');
+    }
+  }
+
+  private async run(): Promise<void> {
+    this.started = true;
+    this.running = true;
+    let report: BulkRefreshReport;
+
+    try {
+      report = await this.refresher.refreshAll(this.files, {
+        onProgress: progress => {
+          this.lastProgress = progress;
+          this.renderProgress(progress);
+        },
+        isCancelled: () => this.cancelled
+      });
+    } catch (error) {
+      this.logger.error('BulkRefreshModal', '도서 노트 일괄 새로고침 실패', { error });
+      const message = error instanceof PluginError ? error.getUserMessage() : String(error);
+      new Notice(`도서 노트 새로고침 실패: ${message}`);
+      this.close();
+      return;
+    } finally {
+      this.running = false;
+      this.onFinished();
+    }
+
+    try {
+      const reportFile = await this.refresher.writeReport(report);
+      await this.app.workspace.getLeaf().openFile(reportFile);
+    } catch (error) {
+      this.logger.error('BulkRefreshModal', '보고서 노트 작성 실패', { error });
+    }
+
+    new Notice(
+      `도서 노트 새로고침 ${report.cancelled ? '취소됨' : '완료'}: ` +
+      `갱신 ${report.updated.length}, 변경 없음 ${report.unchanged.length}, ` +
+      `${report.bodySkipped.length > 0 ? `본문 제외 ${report.bodySkipped.length}, ` : ''}실패 ${report.failed.length}`
+    );
+    this.close();
+  }
+
+  private renderProgress(progress: BulkRefreshProgress): void {
+    if (this.progressEl) this.progressEl.value = progress.current;
+    this.statusEl?.setText(`${progress.current} / ${progress.total}  ${progress.file?.basename ?? ''}`);
+    this.countsEl?.setText(`갱신 ${progress.updated} · 변경 없음 ${progress.unchanged} · ` +
+      `${progress.bodySkipped > 0 ? `본문 제외 ${progress.bodySkipped} · ` : ''}실패 ${progress.failed}`);
+    if (this.cancelButton && progress.current === progress.total) {
+      this.cancelButton.disabled = true;
+    }
+  }
+}
@@ -0,0 +1,194 @@
+import { App, Modal, Notice, Setting } from 'obsidian';
+import { Book } from '../domain/models/Book';
+import { SearchResult } from '../application/services/BookService';
+import { CacheEntryInfo } from '../infrastructure/cache/CacheManager';
+import { CacheStats } from '../infrastructure/cache/MemoryCache';
+import KyobobookPlugin from '../main';
+
+const NAMESPACE_LABELS: Record<string, string> = {
+  detail: '도서 상세 정보',
+  search: '검색 결과 페이지'
+};
+
+// 네임스페이스마다 목록에 표시할 최대 항목 수 (나머지는 검색어로 좁혀서 확인)
+const MAX_LISTED_ENTRIES = 50;
+
+/**
+ * 캐시 통계 및 관리 모달
+ *
+ * 네임스페이스별 통계와 저장된 항목(최신순)을 보여주고,
+ * 항목 하나 / 네임스페이스 / 전체 단위로 캐시를 비울 수 있습니다.
+ */
+export class CacheStatusModal extends Modal {
+  private readonly plugin: KyobobookPlugin;
+  private filter = '';
+  private listEl?: HTMLElement;
+
+  constructor(app: App, plugin: KyobobookPlugin) {
+    super(app);
+    this.plugin = plugin;
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.modalEl.addClass('kyobobook-cache-modal');
+
+    contentEl.createEl('h3', { text: '캐시 상태' });
+
+    new Setting(contentEl)
+      .setName('항목 검색')
+      .setDesc('도서 제목, ID 또는 검색어로 목록을 좁힙니다.')
+      .addText(text => text
+        .setPlaceholder('제목, ID, 검색어')
+        .onChange(value => {
+          this.filter = value.trim().toLowerCase();
+          this.render();
+        }));
+
+    this.listEl = contentEl.createDiv();
+    this.render();
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('새로고침')
+        .onClick(() => this.render()))
+      .addButton(button => button
+        .setButtonText('전체 비우기')
+        .setWarning()
+        .onClick(async () => {
+          await this.plugin.clearAllCaches();
+          new Notice('캐시를 비웠습니다.');
+          this.render();
+        }));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.listEl = undefined;
+    this.filter = '';
+  }
+
+  private render(): void {
+    if (!this.listEl) return;
+    this.listEl.empty();
+
+    const caches = this.plugin.getCacheManager();
+    const stats = caches.getStats();
+
+    for (const name of caches.getNames()) {
+      this.renderNamespace(this.listEl, name, stats[name], caches.getEntries(name));
+    }
+
+    const requests = this.plugin.getRequestStats();
+    this.listEl.createEl('p', {
+      cls: 'kyobobook-cache-disk',
+      text: `동시 요청 병합: 상세 정보 ${requests.detail.coalesced}건 (실행 ${requests.detail.started}건), ` +
+        `HTTP ${requests.http.coalesced}건 (실행 ${requests.http.started}건)`
+    });
+    void this.renderDiskUsage(this.listEl.createEl('p', { cls: 'kyobobook-cache-disk' }));
+  }
+
+  private renderNamespace(containerEl: HTMLElement, name: string, stats: CacheStats, entries: CacheEntryInfo[]): void {
+    const section = containerEl.createDiv({ cls: 'kyobobook-cache-namespace' });
+
+    new Setting(section)
+      .setName(`${NAMESPACE_LABELS[name] ?? name} (${name})`)
+      .setHeading()
+      .addButton(button => button
+        .setButtonText('이 캐시 비우기')
+        .setDisabled(stats.size === 0)
+        .onClick(() => {
+          this.plugin.getCacheManager().clear(name);
+          new Notice(`${NAMESPACE_LABELS[name] ?? name} 캐시를 비웠습니다.`);
+          this.render();
+        }));
+
+    const statsEl = section.createEl('dl', { cls: 'kyobobook-cache-stats' });
+    const addStat = (label: string, value: string) => {
+      statsEl.createEl('dt', { text: label });
+      statsEl.createEl('dd', { text: value });
+    };
+    addStat('항목 수', `${stats.size} / ${stats.maxSize}`);
+    addStat('히트율', `${(stats.hitRate * 100).toFixed(1)}% (히트 ${stats.hitCount}, 미스 ${stats.missCount})`);
+    addStat('제거 횟수', String(stats.evictionCount));
+    addStat('가장 오래된 항목', stats.oldestEntry ? formatAge(stats.oldestEntry) : '-');
+    addStat('가장 최근 항목', stats.newestEntry ? formatAge(stats.newestEntry) : '-');
+
+    const matched = entries.filter(entry =>
+      !this.filter || describeEntry(name, entry).toLowerCase().includes(this.filter));
+    if (matched.length === 0) {
+      section.createEl('p', { cls: 'kyobobook-cache-empty', text: entries.length === 0 ? '저장된 항목이 없습니다.' : '일치하는 항목이 없습니다.' });
+      return;
+    }
+
+    const list = section.createEl('ul', { cls: 'kyobobook-cache-entries' });
+    for (const entry of matched.slice(0, MAX_LISTED_ENTRIES)) {
+      const item = list.createEl('li');
+      item.createSpan({ cls: 'kyobobook-cache-entry-label', text: describeEntry(name, entry), attr: { title: entry.key } });
+      item.createSpan({ cls: 'kyobobook-cache-entry-age', text: formatAge(entry.timestamp) });
+      const remove = item.createEl('button', { text: '삭제' });
+      remove.addEventListener('click', () => {
+        this.invalidate(name, entry);
+        this.render();
+      });
+    }
+
+    if (matched.length > MAX_LISTED_ENTRIES) {
+      section.createEl('p', {
+        cls: 'kyobobook-cache-empty',
+        text: `외 ${matched.length - MAX_LISTED_ENTRIES}개 항목 (검색어로 좁혀서 확인하세요)`
+      });
+    }
+  }
+
+  /**
+   * 항목 하나 삭제 (도서 상세 정보는 도서 단위로 무효화)
+   */
+  private invalidate(name: string, entry: CacheEntryInfo): void {
+    if (name === 'detail') {
+      this.plugin.getCache().invalidateBook((entry.value as Book).id);
+    } else {
+      this.plugin.getCacheManager().invalidate(name, entry.key);
+    }
+  }
+
+  private async renderDiskUsage(el: HTMLElement): Promise<void> {
+    const persistence = this.plugin.getCachePersistence();
+    if (!persistence) {
+      el.setText('디스크 캐시 꺼짐');
+      return;
+    }
+
+    const usage = await persistence.getUsage();
+    const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    el.setText(`디스크: ${toMB(usage.totalBytes)} / ${toMB(usage.maxBytes)} MB (변경 사항은 잠시 후 저장됩니다)`);
+  }
+}
+
+/**
+ * 목록에 표시할 항목 설명
+ */
+function describeEntry(name: string, entry: CacheEntryInfo): string {
+  if (name === 'detail') {
+    const book = entry.value as Book;
+    return `${book.title || '(제목 없음)'} · ${book.id}`;
+  }
+  if (name === 'search') {
+    const result = entry.value as SearchResult;
+    return `"${result.query}" · ${result.offset + 1}번째부터 ${result.books.length}권`;
+  }
+  return entry.key;
+}
+
+/**
+ * 저장 시각을 "n분 전" 형태로 표시
+ */
+function formatAge(timestamp: number): string {
+  const minutes = Math.floor((Date.now() - timestamp) / 60000);
+  if (minutes < 1) return '방금 전';
+  if (minutes < 60) return `${minutes}분 전`;
+  const hours = Math.floor(minutes / 60);
+  if (hours < 24) return `${hours}시간 전`;
+  return `${Math.floor(hours / 24)}일 전`;
+}
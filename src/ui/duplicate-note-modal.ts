@@ -0,0 +1,63 @@
+import { App, Modal, Setting, TFile } from 'obsidian';
+import { Book } from '../domain/models/Book';
+import { DuplicateNoteAction } from '../types';
+
+/**
+ * 같은 도서의 노트가 이미 있을 때 처리 방식을 묻는 모달
+ */
+export class DuplicateNoteModal extends Modal {
+  private readonly existing: TFile;
+  private readonly book: Book;
+  private resolve?: (action: DuplicateNoteAction | null) => void;
+  private chosen: DuplicateNoteAction | null = null;
+
+  constructor(app: App, existing: TFile, book: Book) {
+    super(app);
+    this.existing = existing;
+    this.book = book;
+  }
+
+  /**
+   * 모달을 열고 선택 결과를 기다림 (닫으면 null)
+   */
+  openAndWait(): Promise<DuplicateNoteAction | null> {
+    return new Promise(resolve => {
+      this.resolve = resolve;
+      this.open();
+    });
+  }
+
+  onOpen() {
+    const { contentEl } = this;
+    contentEl.empty();
+    this.modalEl.addClass('kyobobook-duplicate-modal');
+
+    contentEl.createEl('h3', { text: '이미 등록된 도서입니다' });
+    contentEl.createEl('p', {
+      text: `"${this.book.title}" 노트가 이미 있습니다: ${this.existing.path}`
+    });
+
+    new Setting(contentEl)
+      .addButton(button => button
+        .setButtonText('기존 노트 열기')
+        .setCta()
+        .onClick(() => this.choose('open')))
+      .addButton(button => button
+        .setButtonText('정보 새로고침')
+        .onClick(() => this.choose('update')))
+      .addButton(button => button
+        .setButtonText('사본 만들기')
+        .onClick(() => this.choose('copy')));
+  }
+
+  onClose() {
+    this.contentEl.empty();
+    this.resolve?.(this.chosen);
+    this.resolve = undefined;
+  }
+
+  private choose(action: DuplicateNoteAction): void {
+    this.chosen = action;
+    this.close();
+  }
+}
@@ -0,0 +1,185 @@
+import { App, Editor, EditorRange, Notice, TFile } from 'obsidian';
+import { BookService } from '../application/services/BookService';
+import { PluginError } from '../domain/models/Errors';
+import { Book } from '../domain/models/Book';
+import { NoteWriteResult } from '../infrastructure/vault/BookNoteWriter';
+import KyobobookPlugin from '../main';
+import { DuplicateNoteModal } from './duplicate-note-modal';
+
+export const NOTE_RESULT_MESSAGES: Record<NoteWriteResult['action'], (title: string) => string> = {
+  created: title => `"${title}" 노트가 생성되었습니다.`,
+  opened: title => `"${title}" 노트가 이미 있어 기존 노트를 열었습니다.`,
+  updated: title => `"${title}" 기존 노트의 정보를 새로고침했습니다.`,
+  bodySkipped: title => `"${title}" 기존 노트의 frontmatter만 갱신했습니다. 노트 템플릿에 <!-- kyobobook:… --> 관리 영역이 없어 본문은 새로고침하지 않았습니다.`
+};
+
+/**
+ * 한국어 서지 인용 형식: 저자, 『제목: 부제』, 출판사, 연도.
+ */
+export function formatBookCitation(book: Book): string {
+  const title = book.subtitle ? `${book.title}: ${book.subtitle}` : book.title;
+  const year = book.publishDate?.slice(0, 4);
+  const parts = [
+    book.authors.join(', '),
+    `『${title}』`,
+    book.publisher,
+    year
+  ].filter(Boolean);
+  return `${parts.join(', ')}.`;
+}
+
+/**
+ * 상세 정보가 채워진 도서로 노트를 저장하고 연 뒤 결과 알림 표시
+ * (기존 노트가 있으면 설정/선택에 따라 열기·갱신·사본)
+ */
+export async function saveAndOpenBookNote(
+  app: App,
+  plugin: KyobobookPlugin,
+  book: Book
+): Promise<NoteWriteResult | null> {
+  const result = await plugin.getNoteWriter().saveBookNote(book, (existing, target) =>
+    new DuplicateNoteModal(app, existing, target).openAndWait()
+  );
+
+  if (result) {
+    await app.workspace.getLeaf().openFile(result.file);
+    new Notice(NOTE_RESULT_MESSAGES[result.action](book.title));
+    plugin.getLogger().info('NoteActions', `노트 ${result.action}: ${result.file.path}`);
+  }
+
+  return result;
+}
+
+/**
+ * 에디터에 넣을 도서 참조 형식
+ * - template: 인라인 삽입 템플릿 (노트 생성은 설정을 따름)
+ * - link: [[노트|제목]] 위키링크 (링크가 깨지지 않도록 노트를 항상 생성)
+ */
+export type BookReferenceFormat = 'template' | 'link';
+
+/**
+ * 도서 참조를 커서 위치(또는 지정한 범위)에 삽입
+ *
+ * 노트를 새로 만들어야 하면 먼저 만든 뒤 실제 파일명으로 참조를 렌더링합니다.
+ * (파일명 템플릿과 " (2)" 같은 중복 번호가 반영되어 링크가 깨지지 않음)
+ */
+export async function insertBookReference(
+  plugin: KyobobookPlugin,
+  bookService: BookService,
+  editor: Editor,
+  book: Book,
+  format: BookReferenceFormat = 'template',
+  range?: EditorRange
+): Promise<void> {
+  const noteWriter = plugin.getNoteWriter();
+  const target = captureInsertTarget(editor, range);
+
+  const createNote = format === 'link' || plugin.settings.createNoteOnInsert;
+  const created = createNote && !noteWriter.findExistingNote(book)
+    ? await createBookNote(plugin, bookService, book)
+    : null;
+
+  // 노트 생성에 실패하면 파일명 템플릿으로 예상한 이름을 사용
+  const referenced = created?.book ?? book;
+  const noteName = created?.file.basename ?? noteWriter.getNoteName(book);
+  const text = format === 'link'
+    ? formatWikiLink(noteName, referenced.title)
+    : noteWriter.renderInlineReference(referenced, noteName);
+
+  insertAtTarget(editor, target, text);
+}
+
+function formatWikiLink(noteName: string, title: string): string {
+  return noteName === title ? `[[${noteName}]]` : `[[${noteName}|${title}]]`;
+}
+
+/**
+ * 삽입 위치와 그 자리에 있던 텍스트 (노트를 만드는 동안 문서가 바뀌었는지 확인용)
+ */
+interface InsertTarget {
+  range: EditorRange;
+  text: string;
+}
+
+function captureInsertTarget(editor: Editor, range?: EditorRange): InsertTarget {
+  const target = range ?? { from: editor.getCursor('from'), to: editor.getCursor('to') };
+  return { range: target, text: editor.getRange(target.from, target.to) };
+}
+
+/**
+ * 기록한 위치에 삽입 (그 사이 해당 위치의 텍스트가 바뀌었으면 현재 커서 위치에 삽입)
+ */
+function insertAtTarget(editor: Editor, target: InsertTarget, text: string): void {
+  const { from, to } = target.range;
+  if (editor.getRange(from, to) === target.text) {
+    editor.replaceRange(text, from, to);
+  } else {
+    editor.replaceSelection(text);
+  }
+}
+
+/**
+ * 상세 정보를 가져와 노트만 생성 (열지 않음, 실패하면 알림 후 null)
+ */
+async function createBookNote(
+  plugin: KyobobookPlugin,
+  bookService: BookService,
+  book: Book
+): Promise<{ file: TFile; book: Book } | null> {
+  const noteWriter = plugin.getNoteWriter();
+  new Notice(`"${book.title}" 노트를 만든 뒤 삽입합니다...`);
+
+  try {
+    const detail = await bookService.enrichBook(book, 15000, { tocApiFirst: plugin.settings.tocApiFirst });
+    const file = await noteWriter.createNote(detail.book);
+    plugin.getLogger().info('NoteActions', `삽입한 도서 노트 생성: ${file.path}`);
+    return { file, book: detail.book };
+  } catch (error) {
+    const message = error instanceof PluginError ? error.getUserMessage() : String(error);
+    new Notice(`"${book.title}" 노트를 만들지 못했습니다: ${message}`);
+    plugin.getLogger().error('NoteActions', '삽입한 도서 노트 생성 실패', { bookId: book.id, error });
+    return null;
+  }
+}
+
+/**
+ * 여러 도서의 노트 결과 요약
+ */
+export interface BookNotesSummary {
+  created: number;
+  existing: number; // 기존 노트를 열거나 갱신
+  skipped: number;  // 중복 확인 창에서 취소
+  failures: Array<{ title: string; message: string }>;
+}
+
+/**
+ * 여러 도서의 노트를 차례로 저장 (한 권이 실패해도 나머지는 계속 진행)
+ */
+export async function saveBookNotes(
+  app: App,
+  plugin: KyobobookPlugin,
+  books: Book[]
+): Promise<BookNotesSummary> {
+  const summary: BookNotesSummary = { created: 0, existing: 0, skipped: 0, failures: [] };
+
+  for (const book of books) {
+    try {
+      const result = await plugin.getNoteWriter().saveBookNote(book, (existing, target) =>
+        new DuplicateNoteModal(app, existing, target).openAndWait()
+      );
+      if (!result) {
+        summary.skipped++;
+      } else if (result.action === 'created') {
+        summary.created++;
+      } else {
+        summary.existing++;
+      }
+    } catch (error) {
+      const message = error instanceof PluginError ? error.getUserMessage() : String(error);
+      summary.failures.push({ title: book.title, message });
+      plugin.getLogger().error('NoteActions', `노트 저장 실패: ${book.title}`, { error });
+    }
+  }
+
+  return summary;
+}
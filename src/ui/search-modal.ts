@@ -1,42 +1,109 @@
-import { App, SuggestModal, Notice, TFile } from 'obsidian';
-import { Book } from '../domain/models/Book';
-import { SearchError, NetworkError } from '../domain/models/Errors';
-import { BookService, SearchResult } from '../application/services/BookService';
-import { createNoteFromTemplate } from '../utils/template';
+import { App, SuggestModal, Notice } from 'obsidian';
+import { Book, BookFilter, BookSearchCategory, BookSortBy } from '../domain/models/Book';
+import { SearchError, NetworkError, CancelledError, OfflineError, PluginError } from '../domain/models/Errors';
+import { BookService, BookReference, BookReferenceResult, SearchOptions, SearchResult } from '../application/services/BookService';
 import { CSS_CLASSES } from '../shared/constants/selectors';
 import { Logger } from '../shared/utils/Logger';
 import KyobobookPlugin from '../main';
-import { BookInfo } from '../types'; // 레거시 호환성용
 import { UrlUtils } from '../shared/utils/UrlUtils';
+import { TextUtils } from '../shared/utils/TextUtils';
+import { formatBookCitation, saveAndOpenBookNote, saveBookNotes } from './note-actions';
+import { MIN_COVER_WIDTH } from '../application/services/CoverResolver';
+
+// 상세 정보 동시 조회 개수 (선조회/선택 항목 노트 생성 공통)
+const PREFETCH_CONCURRENCY = 2;
+
+const SORT_OPTIONS: Array<[BookSortBy, string]> = [
+  ['relevance', '정확도순'],
+  ['publishDate', '최신순'],
+  ['sales', '판매량순'],
+  ['rating', '평점순']
+];
+
+const CATEGORY_OPTIONS: Array<[BookSearchCategory, string]> = [
+  ['all', '전체'],
+  ['domestic', '국내도서'],
+  ['foreign', '외국도서'],
+  ['ebook', 'eBook']
+];
+
+/**
+ * 검색 모달 동작 (기본은 선택한 도서로 노트 생성)
+ */
+export interface SearchModalOptions {
+  purpose?: string;                           // 모달 하단 안내 문구
+  chooseLabel?: string;                       // 미리보기의 선택 버튼 이름
+  onChoose?: (book: Book) => void | Promise<void>; // 지정하면 노트 생성 대신 호출 (다중 선택 없음)
+}
+
+/**
+ * 검색 모달의 정렬/필터 입력값
+ */
+interface SearchFilterState {
+  sortBy: BookSortBy;
+  category: BookSearchCategory;
+  dateFrom: string;
+  dateTo: string;
+  publisher: string;
+}
 
 export class KyobobookSearchModal extends SuggestModal<Book> {
   plugin: KyobobookPlugin;
   bookService: BookService;
   logger: Logger;
+  options: SearchModalOptions;
   books: Book[] = [];
-  isLoading = false;
+  isLoading = false; // 명시적 검색(Enter/검색 버튼) 진행 중 (실시간 검색은 liveInFlight)
   searchInput!: HTMLInputElement;
   searchButton!: HTMLButtonElement;
+  loadMoreButton!: HTMLButtonElement;
   lastSearchResult?: SearchResult;
+  isLoadingMore = false;
+  filters: SearchFilterState = { sortBy: 'relevance', category: 'all', dateFrom: '', dateTo: '', publisher: '' };
+
+  // 실시간 검색 상태: 마지막 입력값, 대기 중인 타이머, 진행 중인 요청
+  private liveQuery = '';
+  private liveTimer?: number;
+  private liveController?: AbortController;
+  private liveInFlight = false;
+
+  // 미리보기: 렌더링된 항목 → 도서, 지연 로드한 상세 정보
+  private previewEl!: HTMLElement;
+  private previewBook?: Book;
+  private previewTimer?: number;
+  private readonly renderedBooks = new WeakMap<HTMLElement, Book>();
+  private readonly previewDetails = new Map<string, Book>();
+  private unsubscribeUpdates?: () => void;
+
+  // 다중 선택: 검색어가 바뀌어도 유지, 방향키로 목록을 탐색한 뒤에는 Space로 선택 전환
+  private readonly selectedBooks = new Map<string, Book>();
+  private selectionAnchorId?: string;
+  private listNavigation = false;
+  private selectionBar!: HTMLElement;
+
+  // 오프라인 검색 안내 (캐시 결과 표시 중 + 가져오기 대기열 추가)
+  private offlineBar!: HTMLElement;
 
   constructor(
     app: App,
     plugin: KyobobookPlugin,
     bookService: BookService,
-    logger: Logger
+    logger: Logger,
+    options: SearchModalOptions = {}
   ) {
     super(app);
     this.plugin = plugin;
     this.bookService = bookService;
     this.logger = logger;
-    this.setPlaceholder('도서명이나 저자명을 입력하세요...');
+    this.options = options;
+    this.setPlaceholder('도서명, 저자명, 교보문고 URL 또는 ISBN을 입력하세요...');
 
     // 모달에 CSS 클래스 추가
     this.modalEl.addClass('kyobobook-search-modal');
 
     // 모달 제목 설정
     this.setInstructions([
-      { command: '', purpose: '교보문고 도서 검색' }
+      { command: '', purpose: options.purpose ?? '교보문고 도서 검색' }
     ]);
 
     // 커스텀 검색 UI 추가
@@ -62,7 +129,25 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
     });
 
     this.searchInput.addEventListener('keydown', (e) => {
-      if (e.key === 'Enter' && this.searchInput.value.trim().length >= 2) {
+      if (e.key === 'ArrowUp' || e.key === 'ArrowDown') {
+        this.listNavigation = true;
+      } else if (e.key === ' ' && this.listNavigation && !e.isComposing && !this.options.onChoose) {
+        const selected = this.getSelectedItem();
+        if (selected) {
+          e.preventDefault();
+          this.toggleSelection(selected.book);
+          return;
+        }
+      } else if (e.key.length === 1 || e.key === 'Backspace' || e.key === 'Delete') {
+        this.listNavigation = false;
+      }
+
+      const query = this.searchInput.value.trim();
+      // 실시간 검색 결과가 이미 보이면 Enter는 선택 항목 노트 생성에 사용
+      // (대기 중이거나 진행 중인 실시간 검색이 있으면 보이는 목록은 이전 입력의 결과)
+      const showingLiveResults = this.plugin.settings.liveSearch && query === this.liveQuery && this.books.length > 0 &&
+        !this.liveInFlight && this.liveTimer === undefined;
+      if (e.key === 'Enter' && query.length >= 2 && !showingLiveResults) {
         e.preventDefault();
         this.performSearch();
       } else if (e.key === 'Escape') {
@@ -73,6 +158,140 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
 
     // 입력 필드 다음에 버튼 추가
     this.inputEl.parentElement?.appendChild(searchContainer);
+
+    // 정렬/필터 바
+    this.addFilterBar();
+
+    // 결과 목록 아래 "더 보기" 버튼 + 끝까지 스크롤하면 다음 페이지 자동 로드
+    const loadMoreContainer = this.modalEl.createDiv(CSS_CLASSES.LOAD_MORE);
+    this.loadMoreButton = loadMoreContainer.createEl('button', { text: '더 보기' });
+    this.loadMoreButton.addEventListener('click', () => {
+      this.loadMore();
+    });
+    this.resultContainerEl.addEventListener('scroll', () => {
+      const el = this.resultContainerEl;
+      if (el.scrollTop + el.clientHeight >= el.scrollHeight - 40) {
+        this.loadMore();
+      }
+    });
+    this.offlineBar = this.modalEl.createDiv(CSS_CLASSES.OFFLINE_BAR);
+    this.updateLoadMoreState();
+
+    // 결과 목록 오른쪽 미리보기
+    this.addPreviewPane();
+
+    // 다중 선택 바 + Shift/Ctrl 클릭 처리 (기본 클릭 동작인 노트 생성보다 먼저 가로챔)
+    this.selectionBar = this.modalEl.createDiv(CSS_CLASSES.SELECTION_BAR);
+    this.updateSelectionBar();
+    this.resultContainerEl.addEventListener('click', (e) => {
+      if ((!e.shiftKey && !e.ctrlKey && !e.metaKey) || this.options.onChoose) return;
+      const itemEl = (e.target as HTMLElement).closest<HTMLElement>('.suggestion-item');
+      const book = itemEl ? this.renderedBooks.get(itemEl) : undefined;
+      if (!book) return;
+
+      e.preventDefault();
+      e.stopImmediatePropagation();
+      if (e.shiftKey) {
+        this.selectRange(book);
+      } else {
+        this.toggleSelection(book);
+      }
+    }, true);
+  }
+
+  private addPreviewPane(): void {
+    const body = createDiv(CSS_CLASSES.SEARCH_BODY);
+    this.resultContainerEl.insertAdjacentElement('beforebegin', body);
+    body.appendChild(this.resultContainerEl);
+    this.previewEl = body.createDiv(CSS_CLASSES.PREVIEW_PANE);
+    this.renderPreviewEmpty();
+
+    // SuggestModal은 선택 변경 이벤트가 없으므로 is-selected 클래스 변화를 관찰
+    new MutationObserver(() => this.onSelectionChange()).observe(this.resultContainerEl, {
+      subtree: true,
+      childList: true,
+      attributes: true,
+      attributeFilter: ['class']
+    });
+  }
+
+  private addFilterBar(): void {
+    const filterBar = createDiv(CSS_CLASSES.SEARCH_FILTERS);
+    this.inputEl.parentElement?.insertAdjacentElement('afterend', filterBar);
+
+    const addSelect = <T extends string>(options: Array<[T, string]>, value: T, onChange: (value: T) => void) => {
+      const select = filterBar.createEl('select', { cls: 'dropdown' });
+      for (const [optionValue, label] of options) {
+        select.createEl('option', { value: optionValue, text: label });
+      }
+      select.value = value;
+      select.addEventListener('change', () => onChange(select.value as T));
+    };
+    const addInput = (placeholder: string, onChange: (value: string) => void) => {
+      const input = filterBar.createEl('input', { type: 'text', placeholder });
+      input.addEventListener('change', () => onChange(input.value.trim()));
+    };
+
+    addSelect(SORT_OPTIONS, this.filters.sortBy, value => this.updateFilters({ sortBy: value }));
+    addSelect(CATEGORY_OPTIONS, this.filters.category, value => this.updateFilters({ category: value }));
+    addInput('출간일부터 (YYYY-MM)', value => this.updateFilters({ dateFrom: value }));
+    addInput('출간일까지 (YYYY-MM)', value => this.updateFilters({ dateTo: value }));
+    addInput('출판사', value => this.updateFilters({ publisher: value }));
+  }
+
+  /**
+   * 필터 변경 시 현재 검색어로 다시 검색
+   */
+  private updateFilters(changes: Partial<SearchFilterState>): void {
+    this.filters = { ...this.filters, ...changes };
+    this.logger.debug('SearchModal', '검색 필터 변경', { filters: this.filters });
+
+    if (this.lastSearchResult && this.searchInput.value.trim().length >= 2) {
+      this.performSearch();
+    }
+  }
+
+  /**
+   * 현재 필터로 검색 옵션 구성 (서버 지원 옵션은 URL, 나머지는 BookFilter)
+   */
+  private buildSearchOptions(offset = 0): SearchOptions {
+    const filter: BookFilter = {
+      publishers: this.filters.publisher ? [this.filters.publisher] : undefined,
+      publishDateFrom: toDateBound(this.filters.dateFrom, 'start'),
+      publishDateTo: toDateBound(this.filters.dateTo, 'end')
+    };
+
+    return {
+      maxResults: this.plugin.settings.maxSearchResults,
+      offset,
+      enableDetailFetch: false, // 검색 단계에서는 기본 정보만
+      cacheResults: true,
+      timeout: 15000,
+      category: this.filters.category,
+      sortBy: this.filters.sortBy,
+      sortOrder: 'desc',
+      filter
+    };
+  }
+
+  /**
+   * 검색어를 채운 채로 모달을 열고 바로 검색
+   */
+  openWithQuery(query: string): void {
+    this.open();
+    this.searchInput.value = query;
+    void this.performSearch();
+  }
+
+  /**
+   * 이미 조회한 도서 목록을 검색 결과로 보여주며 모달 열기
+   */
+  openWithResults(query: string, books: Book[]): void {
+    this.open();
+    this.searchInput.value = query;
+    this.liveQuery = query;
+    this.books = books;
+    this.updateSearchResults();
   }
 
   private async performSearch() {
@@ -80,6 +299,9 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
 
     this.logger.debug('SearchModal', `검색 시작: "${query}"`);
 
+    // 대기 중이거나 진행 중인 실시간 검색은 이 검색으로 대체
+    this.cancelLiveSearch();
+
     if (this.isLoading) {
       const message = '이미 검색 중입니다...';
       new Notice(message);
@@ -87,6 +309,8 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
       return;
     }
 
+    this.liveQuery = query;
+
     // 버튼 상태 변경
     this.setLoadingState(true);
 
@@ -94,16 +318,18 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
       this.books = [];
       this.lastSearchResult = undefined;
 
+      // 교보문고 URL/ISBN은 목록을 거치지 않고 바로 가져오기
+      const reference = this.bookService.parseBookReference(query);
+      if (reference) {
+        await this.importReference(reference);
+        return;
+      }
+
       // BookService를 통한 검색
-      const searchResult = await this.bookService.searchBooks(query, {
-        maxResults: this.plugin.settings.maxSearchResults,
-        enableDetailFetch: false, // 검색 단계에서는 기본 정보만
-        cacheResults: true,
-        timeout: 15000
-      });
+      const searchResult = await this.bookService.searchBooks(query, this.buildSearchOptions());
 
       this.lastSearchResult = searchResult;
-      this.books = searchResult.books;
+      this.books = [...searchResult.books];
 
       // 엄격 모드: 상단 N개 상세 선조회로 썸네일/기본정보 보강
       if (this.plugin.settings.strictDetailPrefetch && !this.plugin.settings.disablePrefetch) {
@@ -113,7 +339,13 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
         }
       }
 
-      if (this.books.length === 0) {
+      if (searchResult.offline) {
+        const message = this.books.length > 0
+          ? `오프라인: 캐시에 저장된 도서에서 ${this.books.length}권을 찾았습니다.`
+          : '오프라인: 캐시에 일치하는 도서가 없습니다.';
+        new Notice(message);
+        this.logger.info('SearchModal', message, { query });
+      } else if (this.books.length === 0) {
         const message = '검색 결과가 없습니다.';
         new Notice(message);
         this.logger.warn('SearchModal', message);
@@ -139,10 +371,134 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
       this.handleSearchError(error as Error);
     } finally {
       this.setLoadingState(false);
+      this.updateLoadMoreState();
+    }
+  }
+
+  /**
+   * 다음 페이지를 가져와 목록 뒤에 추가
+   */
+  private async loadMore(): Promise<void> {
+    const previous = this.lastSearchResult;
+    if (!previous?.hasMore || this.isLoading || this.isLoadingMore) return;
+
+    this.isLoadingMore = true;
+    this.updateLoadMoreState();
+
+    try {
+      const searchResult = await this.bookService.searchBooks(
+        previous.query,
+        this.buildSearchOptions(previous.offset + this.plugin.settings.maxSearchResults)
+      );
+
+      // 검색어가 바뀌었으면 버림
+      if (this.lastSearchResult !== previous) return;
+
+      const knownIds = new Set(this.books.map(book => book.id));
+      const added = searchResult.books.filter(book => !knownIds.has(book.id));
+      // 필터로 모두 걸러진 페이지는 계속 진행, 중복만 돌아오면 중단
+      this.lastSearchResult = {
+        ...searchResult,
+        hasMore: searchResult.hasMore && (added.length > 0 || searchResult.books.length === 0)
+      };
+      // 클라이언트 정렬은 페이지마다 적용되므로 이어 붙인 목록 전체를 다시 정렬
+      this.books = this.bookService.sortSearchResults([...this.books, ...added], this.buildSearchOptions());
+
+      this.logger.debug('SearchModal', `다음 페이지 로드: ${added.length}권 추가 (총 ${this.books.length}권)`);
+
+      const scrollTop = this.resultContainerEl.scrollTop;
+      this.updateSearchResults();
+      this.resultContainerEl.scrollTop = scrollTop;
+    } catch (error) {
+      this.handleSearchError(error as Error);
+    } finally {
+      this.isLoadingMore = false;
+      this.updateLoadMoreState();
     }
   }
 
-  getSuggestions(_query: string): Book[] | Promise<Book[]> {
+  private updateLoadMoreState(): void {
+    const hasMore = !!this.lastSearchResult?.hasMore && this.books.length > 0;
+    this.loadMoreButton.parentElement?.toggle(hasMore);
+    this.loadMoreButton.disabled = this.isLoadingMore;
+    this.loadMoreButton.textContent = this.isLoadingMore ? '불러오는 중...' : '더 보기';
+
+    // 결과가 바뀔 때마다 함께 호출되므로 오프라인 안내도 여기서 갱신
+    this.updateOfflineBar();
+  }
+
+  /**
+   * 오프라인 검색 결과면 안내와 가져오기 대기열 추가 버튼 표시
+   */
+  private updateOfflineBar(): void {
+    const bar = this.offlineBar;
+    const result = this.lastSearchResult;
+    bar.empty();
+    bar.toggle(!!result?.offline);
+    if (!result?.offline) return;
+
+    bar.createSpan({ text: '오프라인 - 캐시에 저장된 도서에서 찾은 결과입니다.' });
+    if (this.options.onChoose) return;
+
+    const queueButton = bar.createEl('button', { text: `"${result.query}" 가져오기 대기열에 추가` });
+    queueButton.addEventListener('click', () => {
+      this.close();
+      void this.plugin.queueOfflineImport(result.query);
+    });
+  }
+
+  /**
+   * URL/ISBN 입력 처리: 단일 도서면 바로 노트 생성, 아니면 검색 결과로 표시
+   */
+  private async importReference(reference: BookReference): Promise<void> {
+    this.logger.debug('SearchModal', '도서 참조 직접 가져오기', { reference });
+
+    const input = reference.type === 'isbn' ? reference.isbn : UrlUtils.buildDetailPageUrl(reference.bookId);
+    let result: BookReferenceResult;
+    try {
+      result = await this.bookService.lookupBookReference(reference, {
+        maxResults: this.plugin.settings.maxSearchResults,
+        timeout: 15000,
+        tocApiFirst: this.plugin.settings.tocApiFirst
+      });
+    } catch (error) {
+      if (!(error instanceof OfflineError) || this.options.onChoose) throw error;
+      result = { reference, candidates: [] };
+    }
+
+    // 오프라인에서 캐시로 확정하지 못한 URL/ISBN은 연결된 뒤 다시 찾도록 대기열에 추가
+    if (!result.detail && this.plugin.isOffline() && !this.options.onChoose) {
+      this.close();
+      await this.plugin.queueOfflineImport(input);
+      return;
+    }
+
+    if (result.detail) {
+      this.close();
+      if (this.options.onChoose) {
+        await this.onChooseSuggestion(result.detail.book);
+        return;
+      }
+      try {
+        await saveAndOpenBookNote(this.app, this.plugin, result.detail.book);
+      } catch (error) {
+        this.handleNoteCreationError(error as Error, result.detail.book.title);
+      }
+      return;
+    }
+
+    this.books = result.candidates;
+    new Notice(this.books.length > 0
+      ? `ISBN과 정확히 일치하는 도서를 찾지 못해 검색 결과 ${this.books.length}개를 표시합니다.`
+      : '검색 결과가 없습니다.');
+    this.updateSearchResults();
+  }
+
+  getSuggestions(query: string): Book[] | Promise<Book[]> {
+    if (this.plugin.settings.liveSearch) {
+      return this.getLiveSuggestions(query.trim());
+    }
+
     // 검색 결과가 있으면 모든 결과 반환 (필터링하지 않음)
     if (this.books.length > 0) {
       return this.books;
@@ -152,6 +508,105 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
     return [];
   }
 
+  /**
+   * 실시간 검색: 캐시에 있으면 즉시 표시하고, 없으면 입력이 멈춘 뒤 검색
+   * 새 결과가 올 때까지 이전 결과를 그대로 보여줌
+   */
+  private getLiveSuggestions(query: string): Book[] {
+    if (query === this.liveQuery) {
+      return this.books;
+    }
+
+    this.liveQuery = query;
+    this.cancelLiveSearch();
+
+    // 짧은 입력과 URL/ISBN은 자동 검색하지 않음 (URL/ISBN은 Enter로 바로 가져오기)
+    if (query.length < 2 || this.bookService.parseBookReference(query)) {
+      this.books = [];
+      this.lastSearchResult = undefined;
+      this.updateLoadMoreState();
+      return [];
+    }
+
+    const cached = this.bookService.peekCachedSearch(query, this.buildSearchOptions());
+    if (cached) {
+      this.logger.debug('SearchModal', `실시간 검색: 캐시 결과 표시 "${query}"`);
+      this.showLiveResult(cached);
+      return this.books;
+    }
+
+    this.liveTimer = window.setTimeout(() => {
+      this.liveTimer = undefined;
+      void this.runLiveSearch(query);
+    }, this.plugin.settings.liveSearchDelay ?? 500);
+
+    return this.books;
+  }
+
+  /**
+   * 실시간 검색 실행 (한 번에 하나만 요청해 교보문고 요청 간격 제한을 지킴)
+   */
+  private async runLiveSearch(query: string): Promise<void> {
+    if (this.liveInFlight || this.isLoading || query !== this.liveQuery) return;
+
+    const controller = new AbortController();
+    this.liveController = controller;
+    this.liveInFlight = true;
+    this.updateLoadingIndicator();
+
+    try {
+      // 상세 선조회는 입력마다 요청이 늘어나므로 실시간 검색에서는 생략
+      const searchResult = await this.bookService.searchBooks(query, {
+        ...this.buildSearchOptions(),
+        signal: controller.signal
+      });
+
+      if (controller.signal.aborted || query !== this.liveQuery) return;
+
+      this.showLiveResult(searchResult);
+      this.updateSearchResults();
+    } catch (error) {
+      if (error instanceof CancelledError || query !== this.liveQuery) return;
+      this.handleSearchError(error as Error);
+    } finally {
+      this.liveInFlight = false;
+      if (this.liveController === controller) this.liveController = undefined;
+      this.updateLoadingIndicator();
+      this.updateLoadMoreState();
+
+      // 응답을 기다리는 동안 입력이 바뀌었고 대기 타이머가 이미 끝났다면 최신 입력으로 이어서 검색
+      // (명시적 검색이 실시간 검색을 대체했으면 이어서 검색하지 않음)
+      if (!this.isLoading && query !== this.liveQuery && this.liveTimer === undefined && this.liveQuery.length >= 2 &&
+          !this.bookService.parseBookReference(this.liveQuery)) {
+        const cached = this.bookService.peekCachedSearch(this.liveQuery, this.buildSearchOptions());
+        if (cached) {
+          this.showLiveResult(cached);
+          this.updateSearchResults();
+        } else {
+          void this.runLiveSearch(this.liveQuery);
+        }
+      }
+    }
+  }
+
+  private showLiveResult(searchResult: SearchResult): void {
+    this.lastSearchResult = searchResult;
+    this.books = [...searchResult.books];
+    this.updateLoadMoreState();
+  }
+
+  /**
+   * 대기 중인 실시간 검색 취소 (진행 중인 요청은 결과를 버림)
+   */
+  private cancelLiveSearch(): void {
+    if (this.liveTimer !== undefined) {
+      window.clearTimeout(this.liveTimer);
+      this.liveTimer = undefined;
+    }
+    this.liveController?.abort();
+    this.liveController = undefined;
+  }
+
   private handleSearchError(error: Error): void {
     let userMessage: string;
     let logLevel: 'warn' | 'error' = 'error';
@@ -176,8 +631,15 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
 
   private setLoadingState(loading: boolean): void {
     this.isLoading = loading;
-    this.searchButton.disabled = loading;
-    this.searchButton.textContent = loading ? '검색 중...' : '검색';
+    this.updateLoadingIndicator();
+  }
+
+  /**
+   * 검색 버튼 상태 (실시간 검색 중에도 눌러서 명시적 검색으로 대체할 수 있음)
+   */
+  private updateLoadingIndicator(): void {
+    this.searchButton.disabled = this.isLoading;
+    this.searchButton.textContent = this.isLoading || this.liveInFlight ? '검색 중...' : '검색';
   }
 
   private updateSearchResults(): void {
@@ -196,60 +658,36 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
     this.logger.debug('SearchModal', `검색 결과 렌더링: "${book.title}"`);
 
     // 표지 이미지
-    const coverImg = el.createEl('img', { cls: CSS_CLASSES.BOOK_COVER });
-    const chooseCoverUrl = (): string | undefined => {
-      const barcode = (book.isbn || '').replace(/[^0-9]/g, '');
-      const hasBarcode = /^\d{12,13}$/.test(barcode);
-      const numericId = book.id.replace(/^S/, '');
-      const staticUrl = hasBarcode
-        ? UrlUtils.buildCoverImageUrl(barcode, 'medium')
-        : (/\d{6,}/.test(numericId) ? UrlUtils.buildCoverImageUrl(book.id, 'medium') : undefined);
-      if (this.plugin.settings.enforceStaticCover) return staticUrl;
-      return book.coverImageUrl || staticUrl;
-    };
-    const tryLoadCover = (url?: string) => {
-      if (!url) {
-        this.showImagePlaceholder(el, coverImg);
-        return;
-      }
-      coverImg.src = url;
-      coverImg.alt = book.title;
-    };
-    let attemptedDetailFetch = false;
-    coverImg.onload = () => {
-      this.logger.debug('SearchModal', `커버 이미지 로드 성공: ${book.title}`);
-    };
-    coverImg.onerror = async () => {
-      this.logger.warn('SearchModal', `커버 이미지 로드 실패: ${coverImg.src}`);
-      if (!attemptedDetailFetch) {
-        attemptedDetailFetch = true;
-        try {
-          const detail = await this.bookService.getBookDetail(book.id, 8000, { tocApiFirst: this.plugin.settings.tocApiFirst });
-          if (detail.book.coverImageUrl && detail.book.coverImageUrl !== coverImg.src) {
-            this.logger.debug('SearchModal', '상세정보 기반 커버 재시도');
-            tryLoadCover(detail.book.coverImageUrl);
-            return;
-          }
-        } catch (e) {
-          this.logger.warn('SearchModal', '상세정보 기반 커버 보강 실패', { error: e });
+    this.renderedBooks.set(el, book);
+
+    // 다중 선택 체크박스
+    if (!this.options.onChoose) {
+      const checkbox = el.createEl('input', { type: 'checkbox', cls: CSS_CLASSES.SELECT_CHECKBOX });
+      checkbox.checked = this.selectedBooks.has(book.id);
+      el.toggleClass(CSS_CLASSES.SELECTED, checkbox.checked);
+      checkbox.addEventListener('click', (e) => {
+        e.stopPropagation();
+        this.toggleSelection(book);
+      });
+    }
+
+    // 표지: 후보를 차례로 시도하고, 모두 실패하면 상세 정보의 후보로 한 번 더 시도
+    const coverImg = el.createEl('img', { cls: CSS_CLASSES.BOOK_COVER, attr: { alt: book.title } });
+    const resolver = this.plugin.getCoverResolver();
+    this.loadCover(coverImg, resolver.getCandidates(book, 'thumbnail').map(c => c.url), async (tried) => {
+      try {
+        const detail = await this.bookService.getBookDetail(book.id, 8000, { tocApiFirst: this.plugin.settings.tocApiFirst });
+        const remaining = resolver.getCandidates(detail.book, 'thumbnail').map(c => c.url).filter(url => !tried.has(url));
+        if (remaining.length > 0) {
+          this.logger.debug('SearchModal', '상세정보 기반 커버 재시도');
+          this.loadCover(coverImg, remaining, () => this.showImagePlaceholder(el, coverImg));
+          return;
         }
+      } catch (e) {
+        this.logger.warn('SearchModal', '상세정보 기반 커버 보강 실패', { error: e });
       }
       this.showImagePlaceholder(el, coverImg);
-    };
-    const initialCover = chooseCoverUrl();
-    if (initialCover) {
-      tryLoadCover(initialCover);
-    } else {
-      // 초기에 썸네일이 없으면 상세 정보로 보강 시도
-      (async () => {
-        try {
-          const detail = await this.bookService.getBookDetail(book.id, 8000, { tocApiFirst: this.plugin.settings.tocApiFirst });
-          tryLoadCover(detail.book.coverImageUrl || initialCover);
-        } catch {
-          this.showImagePlaceholder(el, coverImg);
-        }
-      })();
-    }
+    });
 
     // 도서 정보 컨테이너
     const bookInfo = el.createDiv(CSS_CLASSES.BOOK_INFO);
@@ -297,6 +735,37 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
     this.logger.debug('SearchModal', `검색 결과 렌더링 완료: "${book.title}"`);
   }
 
+  /**
+   * 표지 후보를 차례로 이미지 요소에 시도 (로드 실패나 자리 표시 이미지면 다음 후보)
+   */
+  private loadCover(img: HTMLImageElement, urls: string[], onExhausted: (tried: Set<string>) => void): void {
+    const queue = [...urls];
+    const tried = new Set<string>();
+    const next = () => {
+      const url = queue.shift();
+      if (!url) {
+        img.onload = img.onerror = null;
+        onExhausted(tried);
+        return;
+      }
+      tried.add(url);
+      img.src = url;
+    };
+
+    img.onload = () => {
+      if (img.naturalWidth > 0 && img.naturalWidth < MIN_COVER_WIDTH) {
+        next();
+        return;
+      }
+      this.logger.debug('SearchModal', `커버 이미지 로드 성공: ${img.src}`);
+    };
+    img.onerror = () => {
+      this.logger.debug('SearchModal', `커버 이미지 로드 실패: ${img.src}`);
+      next();
+    };
+    next();
+  }
+
   private showImagePlaceholder(el: HTMLElement, coverImg: HTMLImageElement): void {
     coverImg.style.display = 'none';
     const placeholder = el.createDiv(CSS_CLASSES.BOOK_COVER_PLACEHOLDER);
@@ -305,7 +774,246 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
     el.insertBefore(placeholder, el.firstChild);
   }
 
+  // === 다중 선택 ===
+
+  private getSelectedItem(): { el: HTMLElement; book: Book } | undefined {
+    const el = this.resultContainerEl.querySelector<HTMLElement>('.suggestion-item.is-selected');
+    const book = el ? this.renderedBooks.get(el) : undefined;
+    return el && book ? { el, book } : undefined;
+  }
+
+  private toggleSelection(book: Book): void {
+    if (this.selectedBooks.has(book.id)) {
+      this.selectedBooks.delete(book.id);
+    } else {
+      this.selectedBooks.set(book.id, book);
+    }
+    this.selectionAnchorId = book.id;
+    this.syncSelection();
+  }
+
+  /**
+   * Shift 클릭: 마지막으로 고른 항목부터 현재 항목까지 모두 선택
+   */
+  private selectRange(book: Book): void {
+    const anchorIndex = this.books.findIndex(item => item.id === this.selectionAnchorId);
+    const index = this.books.findIndex(item => item.id === book.id);
+    if (anchorIndex < 0 || index < 0) {
+      this.toggleSelection(book);
+      return;
+    }
+
+    const [from, to] = anchorIndex < index ? [anchorIndex, index] : [index, anchorIndex];
+    for (const item of this.books.slice(from, to + 1)) {
+      this.selectedBooks.set(item.id, item);
+    }
+    this.syncSelection();
+  }
+
+  /**
+   * 다시 렌더링하지 않고 체크박스/선택 바만 갱신
+   */
+  private syncSelection(): void {
+    this.resultContainerEl.querySelectorAll<HTMLElement>('.suggestion-item').forEach(el => {
+      const book = this.renderedBooks.get(el);
+      if (!book) return;
+      const checked = this.selectedBooks.has(book.id);
+      el.toggleClass(CSS_CLASSES.SELECTED, checked);
+      const checkbox = el.querySelector<HTMLInputElement>(`input.${CSS_CLASSES.SELECT_CHECKBOX}`);
+      if (checkbox) checkbox.checked = checked;
+    });
+    this.updateSelectionBar();
+  }
+
+  private updateSelectionBar(): void {
+    const bar = this.selectionBar;
+    bar.empty();
+    bar.toggle(this.selectedBooks.size > 0);
+    if (this.selectedBooks.size === 0) return;
+
+    bar.createSpan({ text: `${this.selectedBooks.size}권 선택됨` });
+    const createButton = bar.createEl('button', { cls: 'mod-cta', text: '선택 항목 노트 생성' });
+    createButton.addEventListener('click', () => {
+      const books = [...this.selectedBooks.values()];
+      this.close();
+      void this.createSelectedNotes(books);
+    });
+    const clearButton = bar.createEl('button', { text: '선택 해제' });
+    clearButton.addEventListener('click', () => {
+      this.selectedBooks.clear();
+      this.syncSelection();
+    });
+  }
+
+  /**
+   * 선택한 도서들의 상세 정보를 동시에(선조회 개수 제한 내) 가져와 노트 생성
+   * 상세 조회나 노트 저장에 실패한 도서는 건너뛰고 마지막에 한 번에 알림
+   */
+  private async createSelectedNotes(books: Book[]): Promise<void> {
+    new Notice(`${books.length}권의 상세 정보를 가져오는 중...`);
+
+    const enriched: Array<Book | undefined> = new Array(books.length);
+    const failures: Array<{ title: string; message: string }> = [];
+    const queued: Book[] = [];
+    await runWithConcurrency(books, PREFETCH_CONCURRENCY, async (book, index) => {
+      try {
+        const detail = await this.bookService.enrichBook(book, 15000, { tocApiFirst: this.plugin.settings.tocApiFirst });
+        enriched[index] = detail.book;
+      } catch (error) {
+        if (error instanceof OfflineError) {
+          queued.push(book);
+          return;
+        }
+        failures.push({ title: book.title, message: error instanceof PluginError ? error.getUserMessage() : String(error) });
+        this.logger.warn('SearchModal', '선택 항목 상세 조회 실패', { id: book.id, error });
+      }
+    });
+
+    const summary = await saveBookNotes(this.app, this.plugin, enriched.filter((book): book is Book => !!book));
+    failures.push(...summary.failures);
+    for (const book of queued) {
+      await this.plugin.queueOfflineImport(toOfflineImportInput(book), false);
+    }
+
+    const parts = [`생성 ${summary.created}`, `기존 ${summary.existing}`];
+    if (summary.skipped > 0) parts.push(`취소 ${summary.skipped}`);
+    if (queued.length > 0) parts.push(`대기열 ${queued.length}`);
+    if (failures.length > 0) parts.push(`실패 ${failures.length}`);
+    new Notice(`선택 항목 노트: ${parts.join(', ')}`, failures.length > 0 ? 8000 : 4000);
+
+    if (failures.length > 0) {
+      new Notice(`실패한 도서:\n${failures.map(failure => `- ${failure.title}: ${failure.message}`).join('\n')}`, 10000);
+    }
+    this.logger.info('SearchModal', '선택 항목 노트 생성 완료', { ...summary, failures });
+  }
+
+  // === 미리보기 ===
+
+  /**
+   * 선택 항목이 바뀌면 미리보기 갱신 (방향키로 빠르게 지나가는 항목은 상세 조회하지 않음)
+   */
+  private onSelectionChange(): void {
+    const selected = this.resultContainerEl.querySelector<HTMLElement>('.suggestion-item.is-selected');
+    const book = selected ? this.renderedBooks.get(selected) : undefined;
+    if (book?.id === this.previewBook?.id) return;
+
+    this.previewBook = book;
+    if (this.previewTimer !== undefined) {
+      window.clearTimeout(this.previewTimer);
+      this.previewTimer = undefined;
+    }
+
+    if (!book) {
+      this.renderPreviewEmpty();
+      return;
+    }
+
+    const detail = this.previewDetails.get(book.id);
+    this.renderPreview(detail ?? book, !detail);
+    if (!detail) {
+      this.previewTimer = window.setTimeout(() => {
+        this.previewTimer = undefined;
+        void this.loadPreviewDetail(book);
+      }, 300);
+    }
+  }
+
+  private async loadPreviewDetail(book: Book): Promise<void> {
+    try {
+      const detail = await this.bookService.getBookDetail(book.id, 10000, { tocApiFirst: this.plugin.settings.tocApiFirst });
+      this.previewDetails.set(book.id, detail.book);
+      if (this.previewBook?.id === book.id) {
+        this.renderPreview(detail.book, false);
+      }
+    } catch (error) {
+      this.logger.warn('SearchModal', '미리보기 상세 정보 조회 실패', { id: book.id, error });
+      if (this.previewBook?.id === book.id) {
+        this.renderPreview(book, false, '상세 정보를 불러오지 못했습니다.');
+      }
+    }
+  }
+
+  private renderPreviewEmpty(): void {
+    this.previewEl.empty();
+    this.previewEl.createDiv({ cls: CSS_CLASSES.EMPTY, text: '방향키로 도서를 고르면 상세 정보를 미리 볼 수 있습니다.' });
+  }
+
+  private renderPreview(book: Book, loading: boolean, errorMessage?: string): void {
+    const el = this.previewEl;
+    el.empty();
+
+    const coverUrls = this.plugin.getCoverResolver().getCandidates(book, 'preview').map(c => c.url);
+    if (coverUrls.length > 0) {
+      const cover = el.createEl('img', { cls: CSS_CLASSES.PREVIEW_COVER, attr: { alt: book.title } });
+      this.loadCover(cover, coverUrls, () => cover.remove());
+    }
+
+    el.createEl('h3', { text: book.title });
+    if (book.subtitle) el.createDiv({ cls: 'setting-item-description', text: book.subtitle });
+
+    const meta = el.createEl('dl', { cls: CSS_CLASSES.PREVIEW_META });
+    const addMeta = (label: string, value?: string) => {
+      if (!value) return;
+      meta.createEl('dt', { text: label });
+      meta.createEl('dd', { text: value });
+    };
+    addMeta('저자', book.authors.join(', '));
+    addMeta('출판사', book.publisher);
+    addMeta('출간일', book.publishDate);
+    addMeta('ISBN', book.isbn);
+    addMeta('쪽수', book.pages ? `${book.pages}쪽` : undefined);
+    addMeta('분류', book.categories?.join(', '));
+
+    if (loading) {
+      el.createDiv({ cls: CSS_CLASSES.LOADING, text: '상세 정보를 불러오는 중...' });
+    } else if (errorMessage) {
+      el.createDiv({ cls: CSS_CLASSES.ERROR, text: errorMessage });
+    }
+
+    if (book.description) {
+      el.createDiv({ cls: CSS_CLASSES.PREVIEW_DESCRIPTION, text: book.description });
+    }
+
+    if (book.tableOfContents) {
+      const toc = el.createEl('details', { cls: CSS_CLASSES.PREVIEW_TOC });
+      toc.createEl('summary', { text: '목차' });
+      toc.createDiv({ text: book.tableOfContents });
+    }
+
+    const actions = el.createDiv(CSS_CLASSES.PREVIEW_ACTIONS);
+    const createButton = actions.createEl('button', { cls: 'mod-cta', text: this.options.chooseLabel ?? '노트 생성' });
+    createButton.addEventListener('click', () => {
+      this.close();
+      void this.onChooseSuggestion(this.previewDetails.get(book.id) ?? book);
+    });
+
+    const citeButton = actions.createEl('button', { text: '인용 복사' });
+    citeButton.addEventListener('click', async () => {
+      try {
+        await navigator.clipboard.writeText(formatBookCitation(this.previewDetails.get(book.id) ?? book));
+        new Notice('인용을 클립보드에 복사했습니다.');
+      } catch (error) {
+        this.logger.warn('SearchModal', '인용 복사 실패', { error });
+        new Notice('클립보드에 복사하지 못했습니다.');
+      }
+    });
+
+    const openButton = actions.createEl('button', { text: '교보문고에서 열기' });
+    openButton.addEventListener('click', () => {
+      window.open(book.detailPageUrl || UrlUtils.buildDetailPageUrl(book.id), '_blank');
+    });
+  }
+
   async onChooseSuggestion(book: Book) {
+    if (this.options.onChoose) {
+      try {
+        await this.options.onChoose(this.previewDetails.get(book.id) ?? book);
+      } catch (error) {
+        this.handleNoteCreationError(error as Error, book.title);
+      }
+      return;
+    }
+
     new Notice(`"${book.title}" 선택됨. 상세 정보를 가져오는 중...`);
 
     try {
@@ -316,17 +1024,14 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
       this.logger.info('SearchModal',
         `상세 정보 조회 완료: ${enrichedBook.title} (${detailResult.fetchTime}ms)`);
 
-      // 노트 생성
-      const noteFile = await this.createBookNote(enrichedBook);
-
-      if (noteFile) {
-        // 생성된 노트 열기
-        await this.app.workspace.getLeaf().openFile(noteFile);
-        new Notice(`"${enrichedBook.title}" 노트가 생성되었습니다.`);
-
-        this.logger.info('SearchModal', `노트 생성 완료: ${noteFile.path}`);
-      }
+      // 노트 생성 (기존 노트가 있으면 설정에 따라 열기/갱신/사본)
+      await saveAndOpenBookNote(this.app, this.plugin, enrichedBook);
     } catch (error) {
+      // 오프라인이라 상세 정보를 가져오지 못하면 ISBN(없으면 상세 URL)으로 대기열에 추가
+      if (error instanceof OfflineError) {
+        await this.plugin.queueOfflineImport(toOfflineImportInput(book));
+        return;
+      }
       this.handleNoteCreationError(error as Error, book.title);
     }
   }
@@ -344,95 +1049,88 @@ export class KyobobookSearchModal extends SuggestModal<Book> {
     this.logger.error('SearchModal', '노트 생성 오류', { bookTitle, error });
   }
 
-  private async createBookNote(book: Book): Promise<TFile | null> {
-    try {
-      const barcode = (book.isbn || '').replace(/[^0-9]/g, '');
-      const hasBarcode = /^\d{12,13}$/.test(barcode);
-      const numericId = book.id.replace(/^S/, '');
-      let coverForNote = this.plugin.settings.enforceStaticCover
-        ? (hasBarcode ? UrlUtils.buildCoverImageUrl(barcode, 'large') : (/\d{6,}/.test(numericId) ? UrlUtils.buildCoverImageUrl(book.id, 'large') : (book.coverImageUrl || '')))
-        : (book.coverImageUrl || (hasBarcode ? UrlUtils.buildCoverImageUrl(barcode, 'large') : (/\d{6,}/.test(numericId) ? UrlUtils.buildCoverImageUrl(book.id, 'large') : '')));
-      if (this.plugin.settings.embedCoverInNote && coverForNote) {
-        try {
-          const dataUrl = await this.bookService.fetchImageAsDataUrl(coverForNote);
-          if (dataUrl) coverForNote = dataUrl;
-        } catch {}
-      }
-      // Book 객체를 레거시 BookInfo 형식으로 변환 (템플릿 호환성용)
-      const legacyBook: BookInfo = {
-        title: book.title,
-        authors: book.authors.join(', '),
-        publisher: book.publisher,
-        publishDate: book.publishDate || '',
-        isbn: book.isbn || '',
-        pages: book.pages?.toString() || '',
-        description: book.description || '',
-        toc: book.tableOfContents || '',
-        categories: book.categories?.join(', ') || '',
-        rating: book.rating?.toString() || '',
-        coverImage: coverForNote || '',
-        url: book.detailPageUrl || '',
-        pid: book.id,
-        bid: book.id
-      };
-
-      const noteContent = createNoteFromTemplate(legacyBook, this.plugin.settings);
-      const fileName = this.generateFileName(book);
-      const folderPath = this.plugin.settings.saveFolder;
-
-      // 폴더가 존재하지 않으면 생성
-      if (folderPath && !this.app.vault.getAbstractFileByPath(folderPath)) {
-        await this.app.vault.createFolder(folderPath);
-      }
-
-      const filePath = folderPath ? `${folderPath}/${fileName}.md` : `${fileName}.md`;
-
-      // 같은 이름의 파일이 있는지 확인
-      let finalPath = filePath;
-      let counter = 1;
-      while (this.app.vault.getAbstractFileByPath(finalPath)) {
-        const name = fileName + ` (${counter})`;
-        finalPath = folderPath ? `${folderPath}/${name}.md` : `${name}.md`;
-        counter++;
-      }
-
-      return await this.app.vault.create(finalPath, noteContent);
-    } catch (error) {
-      this.logger.error('SearchModal', '노트 생성 중 오류', { error });
-      throw error;
-    }
-  }
-
-  // 상세 선조회(엄격 모드): 병렬 제한 없이 순차로 n개 보강 (과한 트래픽 방지)
+  // 상세 선조회(엄격 모드): 동시 요청 수를 제한해 n개 보강 (과한 트래픽 방지)
   private async prefetchDetails(items: Book[]): Promise<void> {
-    const concurrency = 2;
-    let index = 0;
-    const worker = async () => {
-      while (index < items.length) {
-        const i = index++;
-        const b = items[i];
-        try {
-          const detail = await this.bookService.getBookDetail(b.id, 12000, { tocApiFirst: this.plugin.settings.tocApiFirst });
-          items[i] = detail.book;
-          const idx = this.books.findIndex(x => x.id === b.id);
-          if (idx >= 0) this.books[idx] = detail.book;
-        } catch (e) {
-          this.logger.warn('SearchModal', '선조회 실패', { id: b.id, error: e });
-        }
+    await runWithConcurrency(items, PREFETCH_CONCURRENCY, async (b, i) => {
+      try {
+        const detail = await this.bookService.getBookDetail(b.id, 12000, { tocApiFirst: this.plugin.settings.tocApiFirst });
+        items[i] = detail.book;
+        const idx = this.books.findIndex(x => x.id === b.id);
+        if (idx >= 0) this.books[idx] = detail.book;
+      } catch (e) {
+        this.logger.warn('SearchModal', '선조회 실패', { id: b.id, error: e });
       }
-    };
-    await Promise.all(Array.from({ length: Math.min(concurrency, items.length) }, () => worker()));
+    });
   }
 
-  private generateFileName(book: Book): string {
-    // 요청에 따라 파일명은 항상 도서명만 사용
-    return book.title.replace(/[\\/:*?"<>|]/g, '_').trim();
+  onOpen() {
+    super.onOpen();
+    // 백그라운드 갱신으로 상세 정보가 바뀌면 미리보기에 반영
+    this.unsubscribeUpdates = this.bookService.onBookUpdated(book => {
+      if (!this.previewDetails.has(book.id)) return;
+      this.previewDetails.set(book.id, book);
+      if (this.previewBook?.id === book.id) {
+        this.renderPreview(book, false);
+      }
+    });
   }
 
   onClose() {
+    this.unsubscribeUpdates?.();
+    this.unsubscribeUpdates = undefined;
+    this.cancelLiveSearch();
+    if (this.previewTimer !== undefined) window.clearTimeout(this.previewTimer);
+    this.previewTimer = undefined;
+    this.previewBook = undefined;
+    this.selectedBooks.clear();
+    this.selectionAnchorId = undefined;
+    this.listNavigation = false;
+    this.liveQuery = '';
     this.books = [];
     this.lastSearchResult = undefined;
     this.isLoading = false;
+    this.isLoadingMore = false;
+    this.liveInFlight = false;
     this.logger.debug('SearchModal', '검색 모달 닫힘');
   }
 }
+
+/**
+ * 최대 limit개씩 동시에 worker 실행
+ */
+async function runWithConcurrency<T>(
+  items: T[],
+  limit: number,
+  worker: (item: T, index: number) => Promise<void>
+): Promise<void> {
+  let next = 0;
+  const run = async () => {
+    while (next < items.length) {
+      const index = next++;
+      await worker(items[index], index);
+    }
+  };
+  await Promise.all(Array.from({ length: Math.min(limit, items.length) }, () => run()));
+}
+
+/**
+ * 필터 입력값(YYYY, YYYY-MM, YYYY-MM-DD)을 비교 가능한 날짜 경계로 변환
+ */
+function toDateBound(value: string, bound: 'start' | 'end'): string | undefined {
+  if (!value) return undefined;
+
+  const date = TextUtils.normalizeDateString(value.replace(/\s+/g, ''));
+  if (!date || bound === 'start') return date;
+
+  // 연/월만 입력한 경우 그 기간의 끝까지 포함
+  if (/^\d{4}$/.test(value.trim())) return `${date.slice(0, 4)}-12-31`;
+  if (/^\d{4}[-./]\d{1,2}$/.test(value.trim())) return `${date.slice(0, 7)}-31`;
+  return date;
+}
+
+/**
+ * 오프라인 가져오기 대기열에 넣을 입력 (ISBN이 있으면 ISBN, 없으면 상세 페이지 URL)
+ */
+function toOfflineImportInput(book: Book): string {
+  return (book.isbn && TextUtils.normalizeISBN(book.isbn)) || UrlUtils.buildDetailPageUrl(book.id);
+}
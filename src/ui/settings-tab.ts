@@ -1,5 +1,9 @@
-import { App, PluginSettingTab, Setting } from 'obsidian';
+import { App, Notice, PluginSettingTab, Setting } from 'obsidian';
 import KyobobookPlugin from '../main';
+import { TemplateEngine } from '../shared/utils/TemplateEngine';
+import { CoverImageMode, DuplicateNoteAction } from '../types';
+import { resolveCoverImageMode } from '../infrastructure/vault/CoverImageStore';
+import { CacheStatusModal } from './cache-status-modal';
 
 export class KyobobookSettingTab extends PluginSettingTab {
   plugin: KyobobookPlugin;
@@ -30,14 +34,33 @@ export class KyobobookSettingTab extends PluginSettingTab {
         }));
 
     // 파일명 템플릿 설정
-    new Setting(containerEl)
+    const filenameSetting = new Setting(containerEl)
       .setName('파일명 템플릿')
-      .setDesc('생성될 노트의 파일명 형식을 지정합니다. 사용 가능한 변수: {{title}}, {{authors}}, {{publisher}}, {{publishDate}}')
-      .addText(text => text
-        .setPlaceholder('예: {{title}} - {{authors}}')
-        .setValue(this.plugin.settings.filenameTemplate)
+      .setDesc('생성될 노트의 파일명 형식을 지정합니다. 노트 템플릿과 같은 변수/문법을 사용할 수 있고, "/"로 하위 폴더를 지정할 수 있습니다. 예: {{publisher}}/{{title}}');
+    const filenameErrorEl = this.createTemplateErrorEl(filenameSetting);
+
+    filenameSetting.addText(text => text
+      .setPlaceholder('예: {{authors}} - {{title}} ({{publishDate}})')
+      .setValue(this.plugin.settings.filenameTemplate)
+      .onChange(async (value) => {
+        this.plugin.settings.filenameTemplate = value;
+        this.showTemplateError(filenameErrorEl, value);
+        await this.plugin.saveSettings();
+      }));
+    this.showTemplateError(filenameErrorEl, this.plugin.settings.filenameTemplate);
+
+    // 중복 노트 처리
+    new Setting(containerEl)
+      .setName('이미 등록된 도서 처리')
+      .setDesc('같은 ISBN 또는 교보문고 ID를 가진 노트가 이미 있을 때의 기본 동작을 지정합니다.')
+      .addDropdown(dropdown => dropdown
+        .addOption('ask', '매번 묻기')
+        .addOption('open', '기존 노트 열기')
+        .addOption('update', '기존 노트 정보 새로고침')
+        .addOption('copy', '사본 만들기')
+        .setValue(this.plugin.settings.duplicateNoteAction ?? 'ask')
         .onChange(async (value) => {
-          this.plugin.settings.filenameTemplate = value;
+          this.plugin.settings.duplicateNoteAction = value as DuplicateNoteAction;
           await this.plugin.saveSettings();
         }));
 
@@ -54,6 +77,29 @@ export class KyobobookSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
+    // 실시간 검색
+    new Setting(containerEl)
+      .setName('입력하면서 검색')
+      .setDesc('Enter를 누르지 않아도 입력을 멈추면 자동으로 검색합니다. 이전 검색 결과가 캐시에 있으면 바로 표시합니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.liveSearch ?? false)
+        .onChange(async (value) => {
+          this.plugin.settings.liveSearch = value;
+          await this.plugin.saveSettings();
+        }));
+
+    new Setting(containerEl)
+      .setName('실시간 검색 대기 시간 (ms)')
+      .setDesc('마지막 입력 후 검색을 시작하기까지 기다리는 시간입니다. 교보문고 요청 간격(1초) 제한 때문에 너무 짧으면 요청이 대기열에서 기다립니다.')
+      .addSlider(slider => slider
+        .setLimits(300, 1500, 100)
+        .setValue(this.plugin.settings.liveSearchDelay ?? 500)
+        .setDynamicTooltip()
+        .onChange(async (value) => {
+          this.plugin.settings.liveSearchDelay = value;
+          await this.plugin.saveSettings();
+        }));
+
     // 자동 태그 생성
     new Setting(containerEl)
       .setName('자동 태그 생성')
@@ -103,7 +149,7 @@ export class KyobobookSettingTab extends PluginSettingTab {
     // 썸네일 강제 교보 정적 URL 사용
     new Setting(containerEl)
       .setName('썸네일 강제 교보 정적 URL 사용')
-      .setDesc('검색 목록과 생성 노트의 표지를 항상 교보 정적 이미지 URL로 사용합니다. 가장 안정적이지만 해상도/최신성이 제한될 수 있습니다.')
+      .setDesc('검색 목록과 생성 노트의 표지를 교보 정적 이미지 URL부터 시도합니다. 가장 안정적이지만 해상도/최신성이 제한될 수 있습니다. 정적 URL이 실패하면 상세 페이지의 표지로 대체합니다.')
       .addToggle(toggle => toggle
         .setValue(this.plugin.settings.enforceStaticCover)
         .onChange(async (value) => {
@@ -111,17 +157,54 @@ export class KyobobookSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
 
-    // 노트에 표지를 data URL로 내장
+    // 노트의 표지 처리 방식 (첨부 파일일 때만 저장 위치/파일명 설정 표시)
     new Setting(containerEl)
-      .setName('노트에 표지를 내장(data URL)')
-      .setDesc('핫링크 차단으로 이미지가 표시되지 않는 경우를 방지하기 위해, 노트에 표지 이미지를 data URL로 직접 내장합니다. 노트 용량이 커질 수 있습니다.')
-      .addToggle(toggle => toggle
-        .setValue(this.plugin.settings.embedCoverInNote ?? false)
+      .setName('노트의 표지 이미지')
+      .setDesc('원격 URL은 오프라인에서 표시되지 않고, data URL 내장은 노트 용량이 커집니다. 첨부 파일로 저장하면 표지를 vault에 이미지 파일로 내려받고 {{coverImage}}에 vault 상대 경로를 넣습니다.')
+      .addDropdown(dropdown => dropdown
+        .addOption('remote', '원격 URL로 연결')
+        .addOption('embed', '노트에 내장 (data URL)')
+        .addOption('attachment', '첨부 파일로 저장')
+        .setValue(resolveCoverImageMode(this.plugin.settings))
         .onChange(async (value) => {
-          this.plugin.settings.embedCoverInNote = value;
+          const mode = value as CoverImageMode;
+          this.plugin.settings.coverImageMode = mode;
+          this.plugin.settings.embedCoverInNote = mode === 'embed';
+          showAttachmentSettings(mode);
           await this.plugin.saveSettings();
         }));
 
+    const coverFolderSetting = new Setting(containerEl)
+      .setName('표지 저장 폴더')
+      .setDesc('표지 이미지 파일을 저장할 폴더입니다. 같은 ISBN의 표지가 이미 있으면 다시 내려받지 않습니다.')
+      .addText(text => text
+        .setPlaceholder('예: 도서/표지')
+        .setValue(this.plugin.settings.coverFolder ?? '')
+        .onChange(async (value) => {
+          this.plugin.settings.coverFolder = value;
+          await this.plugin.saveSettings();
+        }));
+
+    const coverFilenameSetting = new Setting(containerEl)
+      .setName('표지 파일명 템플릿')
+      .setDesc('확장자를 뺀 파일명 형식입니다. 파일명 템플릿과 같은 변수를 사용할 수 있습니다.');
+    const coverFilenameErrorEl = this.createTemplateErrorEl(coverFilenameSetting);
+    coverFilenameSetting.addText(text => text
+      .setPlaceholder('예: {{isbn}}')
+      .setValue(this.plugin.settings.coverFilenameTemplate ?? '')
+      .onChange(async (value) => {
+        this.plugin.settings.coverFilenameTemplate = value;
+        this.showTemplateError(coverFilenameErrorEl, value);
+        await this.plugin.saveSettings();
+      }));
+    this.showTemplateError(coverFilenameErrorEl, this.plugin.settings.coverFilenameTemplate ?? '');
+
+    const showAttachmentSettings = (mode: CoverImageMode) => {
+      coverFolderSetting.settingEl.toggle(mode === 'attachment');
+      coverFilenameSetting.settingEl.toggle(mode === 'attachment');
+    };
+    showAttachmentSettings(resolveCoverImageMode(this.plugin.settings));
+
     // 목차 강제 API 우선
     new Setting(containerEl)
       .setName('목차 강제 API 우선')
@@ -154,16 +237,25 @@ export class KyobobookSettingTab extends PluginSettingTab {
       text: '사용 가능한 변수: {{title}}, {{authors}}, {{publisher}}, {{publishDate}}, {{isbn}}, {{pages}}, {{description}}, {{toc}}, {{categories}}, {{tags}}, {{rating}}, {{url}}, {{created}}'
     });
 
+    templateSetting.descEl.createDiv({
+      cls: 'setting-item-description',
+      text: `조건문 {{#if isbn}}…{{else}}…{{/if}}, 반복문 {{#each authors}}{{this}}{{/each}}, 필터 {{title | slug}} 사용 가능. 필터: ${TemplateEngine.getFilterNames().join(', ')}`
+    });
+
+    const templateErrorEl = this.createTemplateErrorEl(templateSetting);
+
     templateSetting.addTextArea(text => {
       text.setValue(this.plugin.settings.noteTemplate);
       text.inputEl.rows = 20;
       text.inputEl.cols = 50;
       text.onChange(async (value) => {
         this.plugin.settings.noteTemplate = value;
+        this.showTemplateError(templateErrorEl, value);
         await this.plugin.saveSettings();
       });
       return text;
     });
+    this.showTemplateError(templateErrorEl, this.plugin.settings.noteTemplate);
 
     // 기본 템플릿 복원 버튼
     new Setting(containerEl)
@@ -179,6 +271,33 @@ export class KyobobookSettingTab extends PluginSettingTab {
           this.display(); // 설정 탭 새로고침
         }));
 
+    // 인라인 삽입 템플릿
+    const inlineSetting = new Setting(containerEl)
+      .setName('인라인 삽입 템플릿')
+      .setDesc('"현재 노트에 도서 삽입" 명령으로 커서 위치에 넣을 내용입니다. 노트 템플릿 변수와 {{noteName}}(도서 노트 파일명)을 사용할 수 있습니다.');
+    const inlineErrorEl = this.createTemplateErrorEl(inlineSetting);
+    inlineSetting.addText(text => text
+      .setPlaceholder('[[{{noteName}}|{{title}}]] — {{authors}}')
+      .setValue(this.plugin.settings.inlineTemplate ?? '')
+      .onChange(async (value) => {
+        this.plugin.settings.inlineTemplate = value;
+        this.showTemplateError(inlineErrorEl, value);
+        await this.plugin.saveSettings();
+      }));
+    this.showTemplateError(inlineErrorEl, this.plugin.settings.inlineTemplate ?? '');
+
+    new Setting(containerEl)
+      .setName('삽입할 때 도서 노트 만들기')
+      .setDesc('삽입한 도서의 노트가 없으면 먼저 만든 뒤 삽입해 링크가 바로 연결되도록 합니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.createNoteOnInsert ?? true)
+        .onChange(async (value) => {
+          this.plugin.settings.createNoteOnInsert = value;
+          await this.plugin.saveSettings();
+        }));
+
+    this.displayCacheSettings(containerEl);
+
     // 파일 로깅
     new Setting(containerEl)
       .setName('파일 로깅 활성화')
@@ -201,4 +320,104 @@ export class KyobobookSettingTab extends PluginSettingTab {
           await this.plugin.saveSettings();
         }));
   }
+
+  /**
+   * 캐시 설정 (유지 시간/크기 변경은 다시 시작하면 적용)
+   */
+  private displayCacheSettings(containerEl: HTMLElement): void {
+    containerEl.createEl('h3', { text: '캐시' });
+
+    const addNumberSetting = (
+      name: string,
+      desc: string,
+      key: 'cacheTimeoutMinutes' | 'detailCacheTimeoutMinutes' | 'maxCacheSize' | 'maxSearchCacheSize' | 'maxDiskCacheMB' | 'detailFreshMinutes'
+    ) => new Setting(containerEl)
+      .setName(name)
+      .setDesc(desc)
+      .addText(text => text
+        .setValue(String(this.plugin.settings[key] ?? ''))
+        .onChange(async (value) => {
+          const parsed = parseInt(value, 10);
+          if (isNaN(parsed) || parsed <= 0) return;
+          this.plugin.settings[key] = parsed;
+          await this.plugin.saveSettings();
+        }));
+
+    addNumberSetting('검색 결과 캐시 유지 시간 (분)', '같은 검색어를 다시 검색할 때 저장된 결과를 사용하는 시간입니다.', 'cacheTimeoutMinutes');
+    addNumberSetting('상세 정보 캐시 유지 시간 (분)', '도서 상세 정보는 자주 바뀌지 않으므로 검색 결과보다 길게 유지합니다. 기본값은 7일입니다.', 'detailCacheTimeoutMinutes');
+    addNumberSetting('상세 정보 캐시 크기', '메모리에 보관할 도서 상세 정보 개수입니다.', 'maxCacheSize');
+    addNumberSetting('검색 결과 캐시 크기', '메모리에 보관할 검색 결과 페이지 수입니다.', 'maxSearchCacheSize');
+
+    new Setting(containerEl)
+      .setName('상세 정보 백그라운드 갱신')
+      .setDesc('저장된 상세 정보를 바로 보여주고, 오래된 정보는 뒤에서 다시 받아옵니다. 내용이 바뀌면 미리보기와 열려 있는 노트에 반영합니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.staleWhileRevalidate ?? true)
+        .onChange(async (value) => {
+          this.plugin.settings.staleWhileRevalidate = value;
+          await this.plugin.saveSettings();
+        }));
+
+    addNumberSetting('백그라운드 갱신 기준 (분)', '저장한 지 이 시간이 지난 상세 정보만 다시 받아옵니다. 기본값은 1일입니다.', 'detailFreshMinutes');
+
+    new Setting(containerEl)
+      .setName('디스크에 캐시 저장')
+      .setDesc('검색 결과와 상세 정보를 플러그인 폴더에 저장해 Obsidian을 다시 시작해도 유지합니다. 변경은 다시 시작하면 적용됩니다.')
+      .addToggle(toggle => toggle
+        .setValue(this.plugin.settings.persistentCache ?? true)
+        .onChange(async (value) => {
+          this.plugin.settings.persistentCache = value;
+          await this.plugin.saveSettings();
+        }));
+
+    addNumberSetting('디스크 캐시 크기 한도 (MB)', '한도를 넘으면 오래된 항목부터 저장하지 않습니다.', 'maxDiskCacheMB');
+
+    const usageSetting = new Setting(containerEl)
+      .setName('캐시 사용량')
+      .setDesc('계산 중...')
+      .addButton(button => button
+        .setButtonText('자세히 보기')
+        .onClick(() => new CacheStatusModal(this.app, this.plugin).open()))
+      .addButton(button => button
+        .setButtonText('캐시 비우기')
+        .setWarning()
+        .onClick(async () => {
+          await this.plugin.clearAllCaches();
+          new Notice('캐시를 비웠습니다.');
+          void this.showCacheUsage(usageSetting);
+        }));
+    void this.showCacheUsage(usageSetting);
+  }
+
+  private async showCacheUsage(setting: Setting): Promise<void> {
+    const persistence = this.plugin.getCachePersistence();
+    const stats = this.plugin.getBookService().getCacheStats();
+    const memory = `메모리: 상세 정보 ${stats.size}개, 검색 결과 ${stats.searchPages}페이지`;
+
+    if (!persistence) {
+      setting.setDesc(`${memory} · 디스크 캐시 꺼짐`);
+      return;
+    }
+
+    const usage = await persistence.getUsage();
+    const toMB = (bytes: number) => (bytes / 1024 / 1024).toFixed(1);
+    const files = usage.namespaces.map(item => `${item.name} ${item.entries}개`).join(', ');
+    setting.setDesc(`${memory} · 디스크: ${toMB(usage.totalBytes)} / ${toMB(usage.maxBytes)} MB (${files})`);
+  }
+
+  /**
+   * 템플릿 문법 오류 표시 영역 생성
+   */
+  private createTemplateErrorEl(setting: Setting): HTMLElement {
+    return setting.descEl.createDiv({ cls: 'kyobobook-template-error' });
+  }
+
+  /**
+   * 템플릿 문법 검사 결과 표시 (오류가 없으면 숨김)
+   */
+  private showTemplateError(errorEl: HTMLElement, template: string): void {
+    const error = TemplateEngine.validate(template);
+    errorEl.setText(error ? error.getUserMessage() : '');
+    errorEl.toggle(Boolean(error));
+  }
 }
@@ -0,0 +1,28 @@
+import { App, FuzzySuggestModal, TFile } from 'obsidian';
+
+/**
+ * vault 안의 파일을 골라 콜백으로 전달하는 모달
+ */
+export class VaultFileSuggestModal extends FuzzySuggestModal<TFile> {
+  private readonly extensions: string[];
+  private readonly onChoose: (file: TFile) => void;
+
+  constructor(app: App, extensions: string[], onChoose: (file: TFile) => void) {
+    super(app);
+    this.extensions = extensions;
+    this.onChoose = onChoose;
+    this.setPlaceholder(`파일 선택 (${extensions.map(ext => `.${ext}`).join(', ')})`);
+  }
+
+  getItems(): TFile[] {
+    return this.app.vault.getFiles().filter(file => this.extensions.includes(file.extension));
+  }
+
+  getItemText(file: TFile): string {
+    return file.path;
+  }
+
+  onChooseItem(file: TFile): void {
+    this.onChoose(file);
+  }
+}
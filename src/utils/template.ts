@@ -1,42 +1,118 @@
 // 노트 템플릿 생성 유틸리티
 
 import { BookInfo, KyobobookPluginSettings } from '../types';
+import { TemplateError } from '../domain/models/Errors';
+import { TemplateContext, TemplateEngine, TemplateValue } from '../shared/utils/TemplateEngine';
+import { TextUtils } from '../shared/utils/TextUtils';
 
 export function createNoteFromTemplate(book: BookInfo, settings: KyobobookPluginSettings): string {
-  let template = settings.noteTemplate;
+  return TemplateEngine.render(settings.noteTemplate, buildTemplateContext(book, settings), {
+    formatters: NOTE_FORMATTERS,
+    keepUnknown: true
+  });
+}
+
+/**
+ * 인라인 참조 템플릿 렌더링 (노트 본문 커서 위치에 넣을 한 줄)
+ *
+ * {{noteName}}은 도서 노트의 파일명이라 [[{{noteName}}]] 링크가 실제 노트를 가리킵니다.
+ * 노트 템플릿처럼 해석할 수 없는 태그는 원문으로 남겨 삽입이 실패하지 않게 합니다.
+ */
+export function createInlineReferenceFromTemplate(book: BookInfo, settings: KyobobookPluginSettings, noteName: string): string {
+  return TemplateEngine.render(settings.inlineTemplate || '[[{{noteName}}]]', {
+    ...buildTemplateContext(book, settings),
+    noteName
+  }, { keepUnknown: true });
+}
 
+/**
+ * 파일명 템플릿으로 노트 경로 생성 (저장 폴더 기준 상대 경로, 확장자 제외)
+ * (template을 주면 표지 파일명 등 다른 파일명 템플릿에도 사용)
+ *
+ * 템플릿에 직접 쓴 '/'는 하위 폴더로 취급하고, 변수 값에 포함된 '/'는 치환합니다.
+ * 템플릿 문법이 잘못되었으면 경고를 남기고 기본 템플릿(fallbackTemplate)으로 만듭니다.
+ */
+export function createFileNameFromTemplate(
+  book: BookInfo,
+  settings: KyobobookPluginSettings,
+  template = settings.filenameTemplate || '{{title}}',
+  fallbackTemplate = '{{title}}'
+): string {
+  const context = buildTemplateContext(book, settings);
+  const pathSafeContext: TemplateContext = {};
+  for (const [key, value] of Object.entries(context)) {
+    pathSafeContext[key] = stripPathSeparators(value);
+  }
+
+  let rendered: string;
+  try {
+    rendered = TemplateEngine.render(template, pathSafeContext);
+  } catch (error) {
+    if (!(error instanceof TemplateError)) throw error;
+    console.warn(`파일명 템플릿 오류로 기본 템플릿(${fallbackTemplate})을 사용합니다: ${error.message}`, template);
+    rendered = TemplateEngine.render(fallbackTemplate, pathSafeContext);
+  }
+  return TextUtils.toSafeFilePath(rendered) || TextUtils.toSafeFileName(book.title);
+}
+
+function stripPathSeparators(value: TemplateValue): TemplateValue {
+  if (typeof value === 'string') return value.replace(/[\\/]/g, '_');
+  if (Array.isArray(value)) return value.map(stripPathSeparators);
+  return value;
+}
+
+/**
+ * 템플릿 변수 컨텍스트 생성 (필터/반복문에는 원본 값이 전달됨)
+ */
+export function buildTemplateContext(book: BookInfo, settings: KyobobookPluginSettings): TemplateContext {
   // 현재 날짜 생성
   const now = new Date();
   const created = now.toISOString().split('T')[0]; // YYYY-MM-DD 형식
 
-  // 카테고리와 태그 처리
-  const categories = formatArrayForYAML(book.categories || []);
-  const tags = generateTags(book, settings);
-
-  // 템플릿 변수 치환
-  const replacements: Record<string, string> = {
-    '{{title}}': escapeYAMLValue(book.title || '제목없음'),
-    '{{authors}}': escapeYAMLValue(book.authors || '저자미상'),
-    '{{publisher}}': escapeYAMLValue(book.publisher || ''),
-    '{{publishDate}}': escapeYAMLValue(book.publishDate || ''),
-    '{{isbn}}': escapeYAMLValue(book.isbn || ''),
-    '{{pages}}': escapeYAMLValue(book.pages || ''),
-    '{{description}}': formatDescription(book.description || ''),
-    '{{toc}}': formatTableOfContents(book.toc || ''),
-    '{{categories}}': categories,
-    '{{tags}}': tags,
-    '{{rating}}': escapeYAMLValue(book.rating || ''),
-    '{{url}}': book.url || '',
-    '{{coverImage}}': book.coverImage || '',
-    '{{created}}': created
+  return {
+    id: book.pid || book.bid || '',
+    title: book.title || '제목없음',
+    authors: book.authors
+      ? book.authors.split(',').map(author => author.trim()).filter(Boolean)
+      : ['저자미상'],
+    publisher: book.publisher || '',
+    publishDate: book.publishDate || '',
+    isbn: book.isbn || '',
+    pages: book.pages || '',
+    description: book.description || '',
+    toc: book.toc || '',
+    categories: book.categories || [],
+    tags: generateTags(book, settings),
+    rating: book.rating || '',
+    url: book.url || '',
+    coverImage: book.coverImage || '',
+    created
   };
+}
 
-  // 모든 템플릿 변수 치환
-  for (const [placeholder, value] of Object.entries(replacements)) {
-    template = template.replace(new RegExp(placeholder.replace(/[{}]/g, '\\$&'), 'g'), value);
-  }
+/**
+ * 필터 없이 출력되는 변수의 기본 포맷 (기존 {{var}} 치환 결과와 동일)
+ */
+const NOTE_FORMATTERS: Record<string, (value: TemplateValue) => string> = {
+  title: value => escapeYAMLValue(asText(value)),
+  authors: value => escapeYAMLValue(asList(value).join(', ')),
+  publisher: value => escapeYAMLValue(asText(value)),
+  publishDate: value => escapeYAMLValue(asText(value)),
+  isbn: value => escapeYAMLValue(asText(value)),
+  pages: value => escapeYAMLValue(asText(value)),
+  description: value => formatDescription(asText(value)),
+  toc: value => formatTableOfContents(asText(value)),
+  categories: value => formatArrayForYAML(asList(value)),
+  tags: value => formatArrayForYAML(asList(value)),
+  rating: value => escapeYAMLValue(asText(value))
+};
+
+function asText(value: TemplateValue): string {
+  return value === undefined || value === null ? '' : String(value);
+}
 
-  return template;
+function asList(value: TemplateValue): string[] {
+  return Array.isArray(value) ? value.map(asText) : [];
 }
 
 function escapeYAMLValue(value: string): string {
@@ -67,7 +143,7 @@ function formatArrayForYAML(items: string[]): string {
   return `\n${formattedItems}`;
 }
 
-function generateTags(book: BookInfo, settings: KyobobookPluginSettings): string {
+function generateTags(book: BookInfo, settings: KyobobookPluginSettings): string[] {
   const tags: Set<string> = new Set();
 
   // 기본 태그 추가
@@ -88,7 +164,7 @@ function generateTags(book: BookInfo, settings: KyobobookPluginSettings): string
     tags.add(`출판사/${publisherTag}`);
   }
 
-  return formatArrayForYAML(Array.from(tags));
+  return Array.from(tags);
 }
 
 function formatDescription(description: string): string {
@@ -136,9 +212,5 @@ function formatTableOfContents(toc: string): string {
 
 export function sanitizeFileName(fileName: string): string {
   // 파일명에 사용할 수 없는 문자 제거
-  return fileName
-    .replace(/[\\/:*?"<>|]/g, '_')
-    .replace(/\s+/g, ' ')
-    .trim()
-    .substring(0, 100); // 파일명 길이 제한
+  return TextUtils.toSafeFileName(fileName);
 }
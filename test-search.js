@@ -1,6 +1,18 @@
 // 교보문고 검색 테스트 스크립트
 const https = require('https');
 const fs = require('fs');
+const path = require('path');
+const zlib = require('zlib');
+
+// 응답 본문 압축 해제 (문자열로 이어 붙이면 gzip 바이트가 깨져 복원할 수 없음)
+function decodeBody(buffer, encoding) {
+  switch ((encoding || '').toLowerCase()) {
+    case 'gzip': return zlib.gunzipSync(buffer);
+    case 'deflate': return zlib.inflateSync(buffer);
+    case 'br': return zlib.brotliDecompressSync(buffer);
+    default: return buffer;
+  }
+}
 
 function fetchKyobobookSearch() {
   const searchUrl = 'https://search.kyobobook.co.kr/search?keyword=%EC%83%9D%EA%B0%81&target=total&gbCode=TOT';
@@ -22,17 +34,19 @@ function fetchKyobobookSearch() {
     console.log('응답 상태:', res.statusCode);
     console.log('응답 헤더:', res.headers);
 
-    let data = '';
+    const chunks = [];
     res.on('data', (chunk) => {
-      data += chunk;
+      chunks.push(chunk);
     });
 
     res.on('end', () => {
+      const data = decodeBody(Buffer.concat(chunks), res.headers['content-encoding']).toString('utf8');
       console.log('응답 크기:', data.length);
 
-      // HTML 파일로 저장
-      fs.writeFileSync('/Users/hmkwon/Project/007_kyobobook_plugin/debug-search.html', data);
-      console.log('HTML 저장됨: debug-search.html');
+      // 파서 회귀 테스트 픽스처로 저장 (tests/fixtures/fixtures.json의 debug-search)
+      const file = path.join(__dirname, 'tests/fixtures/search/debug-search.html');
+      fs.writeFileSync(file, data);
+      console.log('HTML 저장됨:', path.relative(process.cwd(), file));
 
       // 기본적인 구조 분석
       console.log('\n=== HTML 구조 분석 ===');
@@ -0,0 +1,71 @@
+// 파서 회귀 테스트용 HTML 픽스처 / 골든 파일
+
+import assert from 'node:assert/strict';
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+
+const FIXTURE_DIR = path.resolve('tests/fixtures');
+const GOLDEN_DIR = path.resolve('tests/golden');
+
+/**
+ * 픽스처 목록 항목 (tests/fixtures/fixtures.json)
+ */
+export interface FixtureEntry {
+  name: string;
+  parser: 'search' | 'detail';
+  file: string;          // tests/fixtures 기준 경로
+  url?: string;          // 새로 받을 주소 (없으면 고정 픽스처)
+  bookId?: string;       // 상세 페이지 픽스처의 교보문고 ID
+  valid?: boolean;       // 정상 페이지 (도서/ISBN을 찾지 못하면 실패)
+  truncated?: boolean;   // 중간에 잘린 캡처 (잘린 뒤쪽의 저자 정보는 검사하지 않음)
+  expectError?: string;  // 오류 페이지 (파서 오류 메시지에 포함되어야 할 문구)
+  description?: string;
+}
+
+export function loadFixtures(parser: FixtureEntry['parser']): FixtureEntry[] {
+  const entries = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, 'fixtures.json'), 'utf8')) as FixtureEntry[];
+  return entries.filter(entry => entry.parser === parser);
+}
+
+export function readFixture(entry: FixtureEntry): string {
+  return fs.readFileSync(path.join(FIXTURE_DIR, entry.file), 'utf8');
+}
+
+/**
+ * 실행할 때마다 달라지는 값(생성 시각, 파싱 시간, 임시 ID)을 고정값으로 바꾼 JSON 값
+ */
+export function toSnapshot(value: unknown): unknown {
+  return JSON.parse(JSON.stringify(value, (key, current) => {
+    if (key === 'createdAt' || key === 'updatedAt' || key === 'parseTime') return undefined;
+    if (typeof current === 'string' && /^temp_\d+_[a-z0-9]+$/.test(current)) return 'temp_<id>';
+    return current;
+  }));
+}
+
+/**
+ * 골든 파일과 비교 (UPDATE_GOLDEN=1이면 골든 파일을 새로 씀)
+ */
+export function assertGolden(name: string, actual: unknown): void {
+  const file = path.join(GOLDEN_DIR, `${name}.json`);
+  const snapshot = toSnapshot(actual);
+
+  if (process.env.UPDATE_GOLDEN === '1') {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    fs.writeFileSync(file, JSON.stringify(snapshot, null, 2) + '\n');
+    return;
+  }
+
+  assert.ok(fs.existsSync(file), `골든 파일이 없습니다: ${path.relative(process.cwd(), file)} (npm run test:update로 생성)`);
+  const expected = JSON.parse(fs.readFileSync(file, 'utf8'));
+  assert.deepStrictEqual(snapshot, expected,
+    `${name} 파싱 결과가 골든 파일과 다릅니다. 의도한 변경이면 npm run test:update 후 git diff로 검토하세요.`);
+}
+
+/**
+ * 오류를 골든 파일에 남길 형태로 변환
+ */
+export function describeError(error: unknown): { name: string; message: string } {
+  return error instanceof Error
+    ? { name: error.name, message: error.message }
+    : { name: 'Unknown', message: String(error) };
+}
@@ -0,0 +1,49 @@
+// HTTP 테스트용 클라이언트 / 녹화 파일
+
+import * as fs from 'node:fs';
+import * as path from 'node:path';
+import { KyobobookClient, KyobobookClientOptions } from '../../src/infrastructure/http/KyobobookClient';
+import { HttpRecording, MemoryTransport } from '../../src/infrastructure/http/MemoryTransport';
+import { HttpTransport } from '../../src/infrastructure/http/HttpTransport';
+import { Logger } from '../../src/shared/utils/Logger';
+
+const RECORDING_DIR = path.resolve('tests/fixtures/http');
+
+/**
+ * 출력 없는 로거
+ */
+export function createSilentLogger(): Logger {
+  return new Logger([]);
+}
+
+/**
+ * 기다리지 않고 요청된 대기 시간만 기록하는 sleep
+ */
+export function createSleepRecorder(): { sleep: (ms: number) => Promise<void>; delays: number[] } {
+  const delays: number[] = [];
+  return {
+    delays,
+    sleep: async (ms: number) => {
+      delays.push(ms);
+    }
+  };
+}
+
+/**
+ * 요청 간격 없이 동작하는 클라이언트 (대기 시간은 sleep으로 확인)
+ */
+export function createTestClient(transport: HttpTransport, options: KyobobookClientOptions = {}): KyobobookClient {
+  return new KyobobookClient(createSilentLogger(), transport, {
+    minRequestInterval: 0,
+    sleep: async () => undefined,
+    ...options
+  });
+}
+
+/**
+ * tests/fixtures/http/<name>.json 녹화 파일 재생
+ */
+export function replayRecording(name: string): MemoryTransport {
+  const recording = JSON.parse(fs.readFileSync(path.join(RECORDING_DIR, `${name}.json`), 'utf8')) as HttpRecording;
+  return MemoryTransport.fromRecording(recording);
+}
@@ -0,0 +1,112 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { NetworkError } from '../../src/domain/models/Errors';
+import { MemoryTransport, RecordingTransport } from '../../src/infrastructure/http/MemoryTransport';
+import { createSleepRecorder, createTestClient } from '../helpers/http';
+
+const URL = 'https://www.kyobobook.co.kr/';
+
+describe('KyobobookClient', () => {
+  it('기본 헤더와 User-Agent를 붙여 전송하고 본문을 반환한다', async () => {
+    const transport = new MemoryTransport().on(URL, { body: '<html>ok</html>' });
+    const client = createTestClient(transport);
+
+    assert.equal(await client.get(URL, { headers: { Referer: 'https://product.kyobobook.co.kr/' } }), '<html>ok</html>');
+
+    const [request] = transport.requests;
+    assert.equal(request.method, 'GET');
+    assert.match(request.headers['User-Agent'], /Mozilla/);
+    assert.equal(request.headers['Accept-Language'], 'ko-KR,ko;q=0.9,en;q=0.8');
+    assert.equal(request.headers['Referer'], 'https://product.kyobobook.co.kr/');
+  });
+
+  it('연결 실패 후 지수 백오프로 재시도해 성공한다', async () => {
+    const { sleep, delays } = createSleepRecorder();
+    const transport = new MemoryTransport()
+      .on(URL, new Error('ECONNRESET'), { times: 2 })
+      .on(URL, { body: 'ok' });
+    const client = createTestClient(transport, { retries: 3, retryDelay: 100, sleep });
+
+    assert.equal(await client.get(URL), 'ok');
+    assert.equal(transport.requests.length, 3);
+    assert.deepEqual(delays, [100, 200]);
+  });
+
+  it('오류 상태 코드가 계속되면 재시도 횟수만큼 보낸 뒤 NetworkError', async () => {
+    const transport = new MemoryTransport().on(URL, { status: 503, body: 'busy' });
+    const client = createTestClient(transport, { retries: 2 });
+
+    await assert.rejects(client.get(URL), (error: unknown) => {
+      assert.ok(error instanceof NetworkError);
+      assert.match(error.message, /2회 모두 실패/);
+      return true;
+    });
+    assert.equal(transport.requests.length, 2);
+  });
+
+  it('요청 간 최소 간격만큼 기다린다', async () => {
+    const { sleep, delays } = createSleepRecorder();
+    const transport = new MemoryTransport().on(() => true, { body: 'ok' });
+    const client = createTestClient(transport, { minRequestInterval: 60 * 1000, sleep });
+
+    await client.get(`${URL}a`);
+    await client.get(`${URL}b`);
+
+    assert.equal(delays.length, 1);
+    assert.ok(delays[0] > 0 && delays[0] <= 60 * 1000);
+  });
+
+  it('같은 URL의 동시 GET 요청은 한 번만 보낸다', async () => {
+    const transport = new MemoryTransport().on(URL, { body: 'ok' });
+    const client = createTestClient(transport);
+
+    const results = await Promise.all([client.get(URL), client.get(URL), client.get(URL)]);
+
+    assert.deepEqual(results, ['ok', 'ok', 'ok']);
+    assert.equal(transport.requests.length, 1);
+    assert.equal(client.getRequestStats().coalesced, 2);
+  });
+
+  describe('getBinary', () => {
+    const COVER = 'https://contents.kyobobook.co.kr/pdt/9788900000001.jpg';
+
+    it('Content-Type 헤더를 소문자, 파라미터 없이 반환한다', async () => {
+      const bytes = new Uint8Array([0xff, 0xd8, 0xff]).buffer;
+      const transport = new MemoryTransport().on(COVER, { headers: { 'Content-Type': 'IMAGE/PNG; charset=binary' }, body: bytes });
+
+      const image = await createTestClient(transport).getBinary(COVER);
+
+      assert.equal(image.contentType, 'image/png');
+      assert.deepEqual(new Uint8Array(image.data), new Uint8Array(bytes));
+    });
+
+    it('Content-Type이 없으면 확장자로 추정한다', async () => {
+      const transport = new MemoryTransport().on(COVER, { body: new Uint8Array([1]).buffer });
+
+      assert.equal((await createTestClient(transport).getBinary(COVER)).contentType, 'image/jpeg');
+    });
+
+    it('404면 상태 코드가 담긴 NetworkError', async () => {
+      const transport = new MemoryTransport().on(COVER, { status: 404 });
+
+      await assert.rejects(createTestClient(transport).getBinary(COVER), { name: 'NetworkError', statusCode: 404 });
+    });
+  });
+
+  it('녹화한 응답을 그대로 재생한다', async () => {
+    const image = new Uint8Array([0x89, 0x50, 0x4e, 0x47]).buffer;
+    const recorder = new RecordingTransport(new MemoryTransport()
+      .on(URL, { headers: { 'content-type': 'text/html' }, body: '<html>교보문고</html>' })
+      .on(`${URL}cover.png`, { headers: { 'content-type': 'image/png' }, body: image }));
+    const recordingClient = createTestClient(recorder);
+    await recordingClient.get(URL);
+    await recordingClient.getBinary(`${URL}cover.png`);
+
+    const recording = JSON.parse(JSON.stringify(recorder.getRecording()));
+    assert.equal(recording.exchanges[1].response.encoding, 'base64');
+
+    const replayClient = createTestClient(MemoryTransport.fromRecording(recording));
+    assert.equal(await replayClient.get(URL), '<html>교보문고</html>');
+    assert.deepEqual(new Uint8Array((await replayClient.getBinary(`${URL}cover.png`)).data), new Uint8Array(image));
+  });
+});
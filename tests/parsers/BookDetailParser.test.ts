@@ -0,0 +1,57 @@
+import '../setup/dom';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BookDetailParser } from '../../src/infrastructure/parsers/BookDetailParser';
+import { Book, BookFactory } from '../../src/domain/models/Book';
+import { UrlUtils } from '../../src/shared/utils/UrlUtils';
+import { assertGolden, describeError, loadFixtures, readFixture } from '../helpers/fixtures';
+
+describe('BookDetailParser', () => {
+  for (const fixture of loadFixtures('detail')) {
+    describe(fixture.name, () => {
+      const bookId = fixture.bookId ?? fixture.name;
+      const baseBook = BookFactory.create({
+        id: bookId,
+        title: '',
+        authors: [],
+        publisher: '',
+        detailPageUrl: UrlUtils.buildDetailPageUrl(bookId),
+        language: 'ko'
+      });
+      const parser = new BookDetailParser(readFixture(fixture));
+      let book: Book | undefined;
+      let error: ReturnType<typeof describeError> | undefined;
+      try {
+        book = parser.enrichBook(baseBook);
+      } catch (e) {
+        error = describeError(e);
+      }
+
+      it('골든 파일과 같은 상세 정보와 파싱 결과를 만든다', () => {
+        assertGolden(`detail/${fixture.name}`, { book, parseResults: parser.getParseResults(), error });
+      });
+
+      it('fixtures.json에 정상 페이지(valid)인지 오류 페이지(expectError)인지 지정되어 있다', () => {
+        assert.notEqual(Boolean(fixture.valid), Boolean(fixture.expectError));
+      });
+
+      if (fixture.valid) {
+        it('정상 페이지에서 기본 도서의 ID를 유지하고 제목과 ISBN을 찾는다', () => {
+          assert.equal(error, undefined, `파싱 오류: ${error?.message}`);
+          assert.equal(book?.id, bookId);
+          assert.ok(book?.title.trim(), '제목을 찾지 못했습니다');
+          assert.match(book?.isbn ?? '', /^\d{13}$/, 'ISBN을 찾지 못했습니다');
+          assert.ok(parser.getParseResults().isbn, 'ISBN 파싱 결과가 실패로 기록됨');
+        });
+      }
+
+      if (fixture.expectError) {
+        it('오류 페이지를 빈 도서 정보가 아닌 파싱 오류로 알린다', () => {
+          assert.equal(book, undefined);
+          assert.equal(error?.name, 'ParseError');
+          assert.ok(error?.message.includes(fixture.expectError ?? ''), `예상과 다른 오류: ${error?.message}`);
+        });
+      }
+    });
+  }
+});
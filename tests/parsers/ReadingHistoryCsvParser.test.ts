@@ -0,0 +1,31 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { ValidationError } from '../../src/domain/models/Errors';
+import { ReadingHistoryCsvParser } from '../../src/infrastructure/parsers/ReadingHistoryCsvParser';
+
+describe('ReadingHistoryCsvParser', () => {
+  it('제목 열이 있으면 행별 기록을 만든다', () => {
+    const { records } = new ReadingHistoryCsvParser('제목,저자\n생각의 망치,김철수\n').parse();
+
+    assert.equal(records.length, 1);
+    assert.equal(records[0].title, '생각의 망치');
+    assert.equal(records[0].author, '김철수');
+  });
+
+  it('제목 열이 없으면 CSV 형식 오류(ValidationError)', () => {
+    assert.throws(() => new ReadingHistoryCsvParser('저자,별점\n김철수,5\n').parse(), (error: unknown) => {
+      assert.ok(error instanceof ValidationError);
+      assert.match(error.getUserMessage(), /CSV에서 제목 열을 찾을 수 없습니다/);
+      assert.doesNotMatch(error.getUserMessage(), /교보문고 페이지/);
+      return true;
+    });
+  });
+
+  it('띄어 쓴 한국어 날짜와 점 구분 날짜를 YYYY-MM-DD로 바꾼다', () => {
+    const csv = '제목,읽은 날짜,등록일\n생각의 망치,2024년 1월 15일,2023. 12. 3.\n';
+    const { records } = new ReadingHistoryCsvParser(csv).parse();
+
+    assert.equal(records[0].reading.dateRead, '2024-01-15');
+    assert.equal(records[0].reading.dateAdded, '2023-12-03');
+  });
+});
@@ -0,0 +1,53 @@
+import '../setup/dom';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SearchResultParser } from '../../src/infrastructure/parsers/SearchResultParser';
+import { Book } from '../../src/domain/models/Book';
+import { assertGolden, describeError, loadFixtures, readFixture } from '../helpers/fixtures';
+
+describe('SearchResultParser', () => {
+  for (const fixture of loadFixtures('search')) {
+    describe(fixture.name, () => {
+      const parser = new SearchResultParser(readFixture(fixture));
+      let books: Book[] = [];
+      let error: ReturnType<typeof describeError> | undefined;
+      try {
+        books = parser.parseBooks();
+      } catch (e) {
+        error = describeError(e);
+      }
+
+      it('골든 파일과 같은 도서 목록과 파싱 지표를 만든다', () => {
+        assertGolden(`search/${fixture.name}`, { books, metrics: parser.getParseMetrics(), error });
+      });
+
+      it('fixtures.json에 정상 페이지(valid)인지 오류 페이지(expectError)인지 지정되어 있다', () => {
+        assert.notEqual(Boolean(fixture.valid), Boolean(fixture.expectError));
+      });
+
+      if (fixture.valid) {
+        it('정상 페이지에서 도서를 찾고 모든 도서에 ID, 제목, ISBN, 저자가 있다', () => {
+          assert.equal(error, undefined, `파싱 오류: ${error?.message}`);
+          assert.ok(books.length > 0, '도서를 하나도 찾지 못했습니다');
+          for (const book of books) {
+            assert.match(book.id, /^\d+$/, `임시 ID로 파싱됨: ${book.title}`);
+            assert.ok(book.title.trim(), `제목 없음: ${book.id}`);
+            assert.match(book.isbn ?? '', /^\d{13}$/, `ISBN 없음: ${book.title}`);
+            if (!fixture.truncated) {
+              assert.ok(book.authors.length > 0 && !book.authors.includes('저자미상'), `저자 없음: ${book.title}`);
+            }
+          }
+          assert.equal(new Set(books.map(book => book.id)).size, books.length, 'ID 중복');
+        });
+      }
+
+      if (fixture.expectError) {
+        it('오류 페이지를 도서 없음이 아닌 파싱 오류로 알린다', () => {
+          assert.equal(books.length, 0);
+          assert.equal(error?.name, 'ParseError');
+          assert.ok(error?.message.includes(fixture.expectError ?? ''), `예상과 다른 오류: ${error?.message}`);
+        });
+      }
+    });
+  }
+});
@@ -0,0 +1,208 @@
+import '../setup/dom';
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { BookService, ConnectionStatus } from '../../src/application/services/BookService';
+import { NetworkError, OfflineError } from '../../src/domain/models/Errors';
+import { HttpTransport } from '../../src/infrastructure/http/HttpTransport';
+import { MemoryTransport } from '../../src/infrastructure/http/MemoryTransport';
+import { createSilentLogger, createSleepRecorder, createTestClient, replayRecording } from '../helpers/http';
+
+const BOOK_ID = 'S000000000001';
+const DETAIL_URL = `https://product.kyobobook.co.kr/detail/${BOOK_ID}`;
+const DETAIL_HTML = '<html><body><div id="contents"><h1><span class="prod_title">생각의 망치</span></h1></div></body></html>';
+
+/**
+ * 클라이언트 재시도는 1회로 두고 BookService 재시도만 확인 (대기 없이 기록)
+ */
+function createService(transport: HttpTransport, connection?: ConnectionStatus) {
+  const { sleep, delays } = createSleepRecorder();
+  const service = new BookService(createTestClient(transport, { retries: 1 }), createSilentLogger(), undefined, undefined, connection);
+  service.setRetryPolicy({ baseDelayMs: 100, sleep });
+  return { service, delays };
+}
+
+function createConnection(offline = false) {
+  const failures: unknown[] = [];
+  const connection: ConnectionStatus = {
+    isOffline: () => offline,
+    reportFailure: error => {
+      failures.push(error);
+    }
+  };
+  return { connection, failures };
+}
+
+describe('BookService', () => {
+  describe('녹화된 교보문고 응답 재생', () => {
+    it('검색 결과 페이지를 도서 목록으로 만든다', async () => {
+      const { service } = createService(replayRecording('kyobobook-session'));
+
+      const result = await service.searchBooks('생각 망치');
+
+      assert.deepEqual(result.books.map(book => book.title), ['생각의 망치', '망치의 생각']);
+      assert.deepEqual(result.books[0].authors, ['김철수']);
+      assert.equal(result.totalFound, 2);
+      assert.equal(result.hasMore, false);
+    });
+
+    it('상세 페이지에서 발견한 목차 엔드포인트로 목차를 채운다', async () => {
+      const transport = replayRecording('kyobobook-session');
+      const { service } = createService(transport);
+
+      const { book } = await service.getBookDetail(BOOK_ID);
+
+      assert.equal(book.id, BOOK_ID);
+      assert.equal(book.tableOfContents, '1장 생각을 두드리다\n2장 망치를 내려놓다\n3장 다시 생각하다');
+      const [tocRequest] = transport.requestsFor(/\/book\/contents\/toc/);
+      assert.equal(tocRequest.headers['Referer'], DETAIL_URL);
+    });
+  });
+
+  describe('parseBookReference', () => {
+    it('상세 페이지 URL에서 도서 ID를 찾는다', () => {
+      const { service } = createService(new MemoryTransport());
+
+      assert.deepEqual(service.parseBookReference(DETAIL_URL), { type: 'id', bookId: '000000000001' });
+    });
+
+    it('잘못된 퍼센트 인코딩이 있는 URL은 null', () => {
+      const { service } = createService(new MemoryTransport());
+
+      assert.equal(service.parseBookReference('https://product.kyobobook.co.kr/detail/S%E0%A4%A'), null);
+    });
+  });
+
+  describe('sortSearchResults', () => {
+    const page1 = [
+      { id: '1', title: '나무', authors: ['김'], publisher: '가' },
+      { id: '2', title: '하늘', authors: ['이'], publisher: '가' }
+    ];
+    const page2 = [{ id: '3', title: '가방', authors: ['박'], publisher: '가' }];
+
+    it('더 보기로 이어 붙인 목록 전체를 클라이언트 정렬 순서로 다시 정렬한다', () => {
+      const { service } = createService(new MemoryTransport());
+
+      const sorted = service.sortSearchResults([...page1, ...page2], { sortBy: 'title', sortOrder: 'asc' });
+
+      assert.deepEqual(sorted.map(book => book.title), ['가방', '나무', '하늘']);
+    });
+
+    it('서버가 정렬한 목록은 순서를 바꾸지 않는다', () => {
+      const { service } = createService(new MemoryTransport());
+      const books = [...page1, ...page2];
+
+      assert.equal(service.sortSearchResults(books, { sortBy: 'publishDate', sortOrder: 'desc' }), books);
+      assert.equal(service.sortSearchResults(books), books);
+    });
+  });
+
+  describe('동시 상세 요청', () => {
+    it('제한 시간이 달라도 같은 도서의 원본 페이지는 한 번만 받는다', async () => {
+      const transport = new MemoryTransport().on(DETAIL_URL, { body: DETAIL_HTML });
+      const { service } = createService(transport);
+
+      await Promise.all([
+        service.getBookDetail(BOOK_ID, 12000),
+        service.getBookDetail(BOOK_ID, 10000),
+        service.getBookDetail(BOOK_ID, 15000)
+      ]);
+
+      assert.equal(transport.requestsFor(DETAIL_URL).length, 1);
+    });
+
+    it('목차 우선 여부가 다르면 결과를 공유하지 않는다', async () => {
+      const transport = new MemoryTransport().on(DETAIL_URL, { body: DETAIL_HTML });
+      const { service } = createService(transport);
+
+      await Promise.all([
+        service.getBookDetail(BOOK_ID, 10000, { tocApiFirst: true }),
+        service.getBookDetail(BOOK_ID, 10000, { tocApiFirst: false })
+      ]);
+
+      assert.equal(service.getRequestStats().started, 2);
+    });
+  });
+
+  describe('목차 찾기', () => {
+    it('인라인 JSON에 목차가 있으면 추가 요청을 보내지 않는다', async () => {
+      const html = DETAIL_HTML.replace('</body>',
+        '<script>window.__DATA__ = {"book_contents_list": ["1부 시작", "2부 끝"]};</script></body>');
+      const transport = new MemoryTransport().on(DETAIL_URL, { body: html });
+      const { service } = createService(transport);
+
+      const { book } = await service.getBookDetail(BOOK_ID);
+
+      assert.equal(book.tableOfContents, '1부 시작\n2부 끝');
+      assert.equal(transport.requests.length, 1);
+    });
+
+    it('발견한 엔드포인트가 실패하면 추정 API 경로로 폴백한다', async () => {
+      const html = DETAIL_HTML.replace('</body>',
+        '<div data-url="https://product.kyobobook.co.kr/book/contents/toc?barcode=1"></div></body>');
+      const transport = new MemoryTransport()
+        .on(DETAIL_URL, { body: html })
+        .on(/\/book\/contents\/toc/, { status: 500, body: 'error' })
+        .on(`https://product.kyobobook.co.kr/api/product/${BOOK_ID}/toc`, { body: '{"toc": "1장\\n2장"}' });
+      const { service } = createService(transport);
+
+      const { book } = await service.getBookDetail(BOOK_ID);
+
+      assert.equal(book.tableOfContents, '1장\n2장');
+      assert.equal(transport.requestsFor(/\/api\/product\//).length, 1);
+    });
+  });
+
+  describe('재시도', () => {
+    it('빈 응답이나 연결 실패는 지수 백오프로 다시 시도한다', async () => {
+      const transport = new MemoryTransport()
+        .on(DETAIL_URL, new Error('ECONNRESET'), { times: 1 })
+        .on(DETAIL_URL, { body: '   ' }, { times: 1 })
+        .on(DETAIL_URL, { body: DETAIL_HTML });
+      const { service, delays } = createService(transport);
+
+      const { book } = await service.getBookDetail(BOOK_ID);
+
+      assert.equal(book.id, BOOK_ID);
+      assert.equal(transport.requestsFor(DETAIL_URL).length, 3);
+      assert.deepEqual(delays, [100, 200]);
+    });
+
+    it('모두 실패하면 연결 상태에 알리고 NetworkError', async () => {
+      const { connection, failures } = createConnection();
+      const transport = new MemoryTransport().on(() => true, new Error('ENOTFOUND'));
+      const { service, delays } = createService(transport, connection);
+
+      await assert.rejects(service.getBookDetail(BOOK_ID), (error: unknown) => {
+        assert.ok(error instanceof NetworkError);
+        assert.match(error.message, /3회 실패/);
+        return true;
+      });
+      assert.equal(transport.requests.length, 3);
+      assert.deepEqual(delays, [100, 200]);
+      assert.equal(failures.length, 1);
+    });
+
+    it('오프라인이면 캐시에서 확정하지 못한 제목/ISBN 조회는 찾지 못함 대신 OfflineError', async () => {
+      const { connection } = createConnection(true);
+      const transport = new MemoryTransport();
+      const { service } = createService(transport, connection);
+
+      await assert.rejects(service.matchBookByTitle('생각의 망치', '김철수'), (error: unknown) => error instanceof OfflineError);
+      await assert.rejects(
+        service.lookupBookReference({ type: 'isbn', isbn: '9788900000001' }),
+        (error: unknown) => error instanceof OfflineError
+      );
+      assert.equal((await service.searchBooks('생각의 망치')).offline, true);
+      assert.equal(transport.requests.length, 0);
+    });
+
+    it('오프라인이면 요청 없이 OfflineError', async () => {
+      const { connection } = createConnection(true);
+      const transport = new MemoryTransport();
+      const { service } = createService(transport, connection);
+
+      await assert.rejects(service.getBookDetail(BOOK_ID), (error: unknown) => error instanceof OfflineError);
+      assert.equal(transport.requests.length, 0);
+    });
+  });
+});
@@ -0,0 +1,26 @@
+// 테스트용 DOM 환경 (브라우저의 DOMParser/HTMLElement를 linkedom으로 대체)
+
+import { parseHTML } from 'linkedom';
+
+const { window } = parseHTML('<!DOCTYPE html><html><head></head><body></body></html>');
+
+/**
+ * BaseParser.parseHtml이 사용하는 DOMParser
+ * linkedom은 빈 문자열이나 조각을 파싱하면 documentElement가 없으므로,
+ * 브라우저처럼 항상 html/head/body가 있는 문서를 돌려주도록 감쌈
+ */
+class HeadlessDOMParser {
+  parseFromString(html: string, type: DOMParserSupportedType): Document {
+    const parser = new window.DOMParser();
+    const document = parser.parseFromString(html, type);
+    if (document.documentElement) return document;
+    return parser.parseFromString(`<!DOCTYPE html><html><head></head><body>${html}</body></html>`, type);
+  }
+}
+
+Object.assign(globalThis, {
+  DOMParser: HeadlessDOMParser,
+  Node: window.Node,
+  Element: window.Element,
+  HTMLElement: window.HTMLElement
+});
@@ -0,0 +1,71 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { SingleFlight } from '../../src/shared/utils/SingleFlight';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * ms 뒤에 value로 끝나는 작업 (제한 시간이 ms보다 짧으면 시간 초과로 실패)
+ */
+function createTask(ms: number, value: string) {
+  let calls = 0;
+  const task = (timeout: number) => () => {
+    calls++;
+    return timeout < ms
+      ? delay(timeout).then(() => Promise.reject(new Error('시간 초과')))
+      : delay(ms).then(() => value);
+  };
+  return { task, calls: () => calls };
+}
+
+describe('SingleFlight', () => {
+  it('제한 시간이 서로 달라도 진행 중인 요청에 합류한다', async () => {
+    const flights = new SingleFlight<string>();
+    const { task, calls } = createTask(20, 'ok');
+
+    const results = await Promise.all([
+      flights.run('S1', 12000, task(12000)), // 미리 받기
+      flights.run('S1', 10000, task(10000)), // 미리보기
+      flights.run('S1', 15000, task(15000))  // 노트 생성
+    ]);
+
+    assert.deepEqual(results, ['ok', 'ok', 'ok']);
+    assert.equal(calls(), 1);
+    assert.deepEqual(flights.getStats(), { started: 1, coalesced: 2, inFlight: 0 });
+  });
+
+  it('제한 시간이 더 짧은 호출자는 자신의 시간이 지나면 먼저 포기한다', async () => {
+    const flights = new SingleFlight<string>();
+    const { task } = createTask(60, 'ok');
+
+    const long = flights.run('S1', 1000, task(1000));
+    await assert.rejects(flights.run('S1', 10, task(10)), { name: 'NetworkError' });
+    assert.equal(await long, 'ok');
+  });
+
+  it('공유 요청이 자체 제한 시간으로 실패하면 시간이 남은 호출자만 다시 실행한다', async () => {
+    const flights = new SingleFlight<string>();
+    const { task, calls } = createTask(40, 'ok');
+
+    const short = flights.run('S1', 10, task(10));
+    const long = flights.run('S1', 1000, task(1000));
+
+    await assert.rejects(short, /시간 초과/);
+    assert.equal(await long, 'ok');
+    assert.equal(calls(), 2);
+  });
+
+  it('제한 시간 전에 실패하면 합류한 호출자도 같은 오류를 받는다', async () => {
+    const flights = new SingleFlight<string>();
+    let calls = 0;
+    const failing = () => {
+      calls++;
+      return delay(5).then(() => Promise.reject(new Error('404')));
+    };
+
+    const results = await Promise.allSettled([flights.run('S1', 1000, failing), flights.run('S1', 5000, failing)]);
+
+    assert.deepEqual(results.map(result => result.status), ['rejected', 'rejected']);
+    assert.equal(calls, 1);
+  });
+});
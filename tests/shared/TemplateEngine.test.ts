@@ -0,0 +1,37 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TemplateError } from '../../src/domain/models/Errors';
+import { TemplateEngine } from '../../src/shared/utils/TemplateEngine';
+
+describe('TemplateEngine', () => {
+  describe('keepUnknown (노트 템플릿)', () => {
+    const render = (template: string) => TemplateEngine.render(template, { title: '생각의 망치' }, { keepUnknown: true });
+
+    it('Obsidian 템플릿 문법과 해석할 수 없는 태그는 원문 그대로 남긴다', () => {
+      assert.equal(render('{{title}} - {{date:YYYY-MM-DD}} {{time:HH:mm}}'), '생각의 망치 - {{date:YYYY-MM-DD}} {{time:HH:mm}}');
+      assert.equal(render('{{title | nope}} {{#weird x}} {{/if}} {{}}'), '{{title | nope}} {{#weird x}} {{/if}} {{}}');
+    });
+
+    it('닫히지 않은 태그와 블록은 원문으로 남긴다', () => {
+      assert.equal(render('{{title}} {{ 열린 채'), '생각의 망치 {{ 열린 채');
+      assert.equal(render('{{#if title}}있음{{else}}없음'), '{{#if title}}있음{{else}}없음');
+    });
+
+    it('keepUnknown이 없으면 문법 오류를 던진다', () => {
+      assert.throws(() => TemplateEngine.render('{{date:YYYY-MM-DD}}', {}), TemplateError);
+      assert.throws(() => TemplateEngine.render('{{title', {}), TemplateError);
+    });
+  });
+
+  describe('Object.prototype 키', () => {
+    it('constructor 등은 변수로 취급하지 않는다', () => {
+      assert.equal(TemplateEngine.render('[{{constructor}}][{{title.toString}}]', { title: 'a' }), '[][]');
+      assert.equal(TemplateEngine.render('{{constructor}}', {}, { keepUnknown: true }), '{{constructor}}');
+    });
+
+    it('toString 등은 필터로 인정하지 않는다', () => {
+      assert.ok(TemplateEngine.validate('{{title | toString}}') instanceof TemplateError);
+      assert.ok(TemplateEngine.validate('{{title | hasOwnProperty}}') instanceof TemplateError);
+    });
+  });
+});
@@ -0,0 +1,18 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { TextUtils } from '../../src/shared/utils/TextUtils';
+
+describe('TextUtils.normalizeDateString', () => {
+  it('구분자 앞뒤 공백을 허용한다', () => {
+    assert.equal(TextUtils.normalizeDateString('2024년 01월 15일 출간'), '2024-01-15');
+    assert.equal(TextUtils.normalizeDateString('2023. 6. 2.'), '2023-06-02');
+    assert.equal(TextUtils.normalizeDateString('2024 - 03'), '2024-03-01');
+  });
+
+  it('기존 형식은 그대로 변환한다', () => {
+    assert.equal(TextUtils.normalizeDateString('2024.01.15'), '2024-01-15');
+    assert.equal(TextUtils.normalizeDateString('2024-1-5'), '2024-01-05');
+    assert.equal(TextUtils.normalizeDateString('2024'), '2024-01-01');
+    assert.equal(TextUtils.normalizeDateString(''), undefined);
+  });
+});
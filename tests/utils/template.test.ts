@@ -0,0 +1,40 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DEFAULT_SETTINGS } from '../../src/settings';
+import { BookInfo } from '../../src/types';
+import { createFileNameFromTemplate, createInlineReferenceFromTemplate } from '../../src/utils/template';
+
+const book: BookInfo = {
+  title: '생각의 망치',
+  authors: '김생각',
+  publisher: '망치출판',
+  publishDate: '2024-01-15',
+  pid: 'S000000000001',
+  isbn: '9788900000001'
+};
+
+describe('createFileNameFromTemplate', () => {
+  it('템플릿 문법이 잘못되면 예외 대신 기본 템플릿으로 만든다', () => {
+    const settings = { ...DEFAULT_SETTINGS, filenameTemplate: '{{title} - {{#if isbn}}' };
+
+    assert.equal(createFileNameFromTemplate(book, settings), '생각의 망치');
+    assert.equal(createFileNameFromTemplate(book, settings, '{{isbn | nope}}', '{{isbn}}'), '9788900000001');
+  });
+
+  it('변수 값의 /는 치환하고 템플릿의 /는 하위 폴더로 남긴다', () => {
+    const settings = { ...DEFAULT_SETTINGS, filenameTemplate: '{{publisher}}/{{title}}' };
+
+    assert.equal(createFileNameFromTemplate({ ...book, title: '생각/망치' }, settings), '망치출판/생각_망치');
+  });
+});
+
+describe('createInlineReferenceFromTemplate', () => {
+  it('해석할 수 없는 태그는 예외 대신 원문으로 남긴다', () => {
+    const settings = { ...DEFAULT_SETTINGS, inlineTemplate: '[[{{noteName}}|{{title | nope}}]] {{#if isbn}}' };
+
+    assert.equal(
+      createInlineReferenceFromTemplate(book, settings, '생각의 망치 (2)'),
+      '[[생각의 망치 (2)|{{title | nope}}]] {{#if isbn}}'
+    );
+  });
+});
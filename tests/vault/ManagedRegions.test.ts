@@ -0,0 +1,96 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { mergeManagedRegions } from '../../src/infrastructure/vault/ManagedRegions';
+
+const rendered = [
+  '# 생각의 망치',
+  '',
+  '<!-- kyobobook:info -->',
+  '## 표지',
+  '![생각의 망치](cover.jpg)',
+  '',
+  '## 도서 정보',
+  '- 저자: 김생각',
+  '<!-- /kyobobook:info -->',
+  '<!-- kyobobook:toc -->',
+  '',
+  '## 목차',
+  '1장 새 목차',
+  '<!-- /kyobobook:toc -->',
+  '',
+  '## 메모',
+  '',
+  '<!-- kyobobook:link -->',
+  '## 링크',
+  '[교보문고 바로가기](https://product.kyobobook.co.kr/detail/S000000000001)',
+  '<!-- /kyobobook:link -->',
+  ''
+].join('\n');
+
+describe('mergeManagedRegions', () => {
+  it('마커 사이만 교체하고 마커 밖의 메모는 보존한다', () => {
+    const current = [
+      '# 생각의 망치',
+      '<!-- kyobobook:toc -->',
+      '## 목차',
+      '옛 목차',
+      '<!-- /kyobobook:toc -->',
+      '',
+      '## 메모',
+      '내 메모',
+      ''
+    ].join('\n');
+
+    const merged = mergeManagedRegions(current, rendered) ?? '';
+
+    assert.match(merged, /1장 새 목차/);
+    assert.doesNotMatch(merged, /옛 목차/);
+    assert.match(merged, /## 메모\n내 메모/);
+    assert.doesNotMatch(merged, /kyobobook:info/, '사용자가 지운 관리 영역은 다시 넣지 않음');
+  });
+
+  it('마커가 없는 옛 노트는 같은 소제목 섹션을 관리 영역으로 바꾸고 메모는 보존한다', () => {
+    const current = [
+      '# 생각의 망치',
+      '',
+      '## 표지',
+      '![생각의 망치](old.jpg)',
+      '',
+      '## 도서 정보',
+      '- 저자: 김생각',
+      '',
+      '## 목차',
+      '옛 목차',
+      '',
+      '## 메모',
+      '내 메모',
+      '',
+      '## 링크',
+      '[교보문고 바로가기](https://product.kyobobook.co.kr/detail/S000000000001)',
+      ''
+    ].join('\n');
+
+    const merged = mergeManagedRegions(current, rendered) ?? '';
+
+    assert.match(merged, /<!-- kyobobook:info -->\n## 표지\n!\[생각의 망치\]\(cover\.jpg\)/);
+    assert.match(merged, /<!-- kyobobook:toc -->[\s\S]*1장 새 목차[\s\S]*<!-- \/kyobobook:toc -->/);
+    assert.doesNotMatch(merged, /옛 목차|old\.jpg/);
+    assert.match(merged, /## 메모\n내 메모/);
+    assert.equal(merged.match(/## 목차/g)?.length, 1);
+    assert.ok(merged.indexOf('<!-- kyobobook:link -->') > merged.indexOf('내 메모'));
+  });
+
+  it('마커가 없고 같은 소제목도 없으면 관리 영역 밖의 첫 소제목 앞에 넣는다', () => {
+    const current = '# 생각의 망치\n\n## 메모\n내 메모\n';
+
+    const merged = mergeManagedRegions(current, rendered) ?? '';
+
+    assert.ok(merged.indexOf('<!-- kyobobook:toc -->') < merged.indexOf('## 메모'));
+    assert.ok(merged.startsWith('# 생각의 망치\n'));
+    assert.match(merged, /## 메모\n내 메모/);
+  });
+
+  it('렌더링한 노트에 관리 영역이 없으면 null (본문을 새로고침할 수 없음)', () => {
+    assert.equal(mergeManagedRegions('# 제목\n메모\n', '# 제목\n새 내용\n'), null);
+  });
+});